@@ -1,10 +1,12 @@
 import { Component } from '@angular/core';
 import { UploaderComponent } from './uploader/uploader.component';
+import { LoginPromptComponent } from './login-prompt/login-prompt.component';
+import { FileBrowserComponent } from './file-browser/file-browser.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [UploaderComponent],
-  template: '<app-uploader></app-uploader>',
+  imports: [UploaderComponent, LoginPromptComponent, FileBrowserComponent],
+  template: '<app-login-prompt></app-login-prompt><app-uploader></app-uploader><app-file-browser></app-file-browser>',
 })
 export class AppComponent {}
@@ -0,0 +1,183 @@
+import { Component, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { DatePipe } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { EMPTY, Subject, merge } from 'rxjs';
+import { catchError, filter, switchMap, tap } from 'rxjs/operators';
+import { FileInfo, FileListQuery, FilesService } from '../services/files.service';
+import { UploadService, describeUploadError } from '../services/upload.service';
+
+/**
+ * Explorador de los archivos ya subidos
+ *
+ * Lista los archivos del usuario con búsqueda, orden y paginación, y se
+ * refresca solo cada vez que termina una subida, también si se hizo desde
+ * otra pestaña u otro dispositivo (evento `completed` del servidor). El
+ * estado del procesamiento posterior (antivirus, miniaturas...) se actualiza
+ * con los eventos `processing` y `processed`.
+ */
+@Component({
+  selector: 'app-file-browser',
+  standalone: true,
+  imports: [DatePipe],
+  templateUrl: './file-browser.component.html',
+})
+export class FileBrowserComponent {
+  private filesSvc = inject(FilesService);
+  private uploadSvc = inject(UploadService);
+  private reload$ = new Subject<void>();
+
+  files = signal<FileInfo[]>([]);          // Página actual
+  total = signal<number>(0);               // Archivos que cumplen los filtros
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+  query = signal<Required<Pick<FileListQuery, 'q' | 'sort' | 'order' | 'page' | 'pageSize'>>>({
+    q: '', sort: 'createdAt', order: 'desc', page: 1, pageSize: 20,
+  });
+
+  constructor() {
+    // Cada archivo terminado aparece en el listado sin recargar a mano, y se
+    // vuelve a cargar al terminar su procesamiento para obtener la miniatura;
+    // switchMap descarta la respuesta de una carga anterior aún en curso
+    const completed$ = this.uploadSvc.events$.pipe(filter(event => event.type === 'completed' || event.type === 'processed'));
+    merge(this.reload$, this.uploadSvc.uploaded$, completed$).pipe(
+      tap(() => this.loading.set(true)),
+      switchMap(() => this.filesSvc.list(this.query()).pipe(
+        catchError(err => {
+          this.error.set(this.describe(err));
+          this.loading.set(false);
+          return EMPTY;
+        })
+      )),
+      takeUntilDestroyed()
+    ).subscribe(page => {
+      this.files.set(page.items);
+      this.total.set(page.total);
+      this.error.set(null);
+      this.loading.set(false);
+    });
+    // Mientras se procesa basta con actualizar el estado del archivo en la página
+    this.uploadSvc.events$.pipe(
+      filter(event => event.type === 'processing'),
+      takeUntilDestroyed()
+    ).subscribe(event => this.files.update(files => files.map(file =>
+      file.fileId === event.fileId ? { ...file, processing: event.processing } : file
+    )));
+    this.load();
+  }
+
+  /**
+   * Carga la página actual con los filtros activos
+   */
+  load() {
+    this.reload$.next();
+  }
+
+  /**
+   * Busca por texto en la ruta de los archivos
+   *
+   * @param q - Texto a buscar
+   */
+  search(q: string) {
+    this.query.update(query => ({ ...query, q: q.trim(), page: 1 }));
+    this.load();
+  }
+
+  /**
+   * Ordena por un campo; repetir el mismo campo invierte el sentido
+   *
+   * @param sort - Campo de orden
+   */
+  sortBy(sort: FileListQuery['sort'] & string) {
+    this.query.update(query => ({
+      ...query,
+      sort,
+      order: query.sort === sort ? (query.order === 'asc' ? 'desc' : 'asc') : (sort === 'name' ? 'asc' : 'desc'),
+      page: 1,
+    }));
+    this.load();
+  }
+
+  /**
+   * Cambia de página
+   *
+   * @param delta - Páginas a avanzar (negativo para retroceder)
+   */
+  goTo(delta: number) {
+    const page = this.query().page + delta;
+    if (page < 1 || page > this.pageCount()) return;
+    this.query.update(query => ({ ...query, page }));
+    this.load();
+  }
+
+  pageCount() {
+    return Math.max(1, Math.ceil(this.total() / this.query().pageSize));
+  }
+
+  /**
+   * Borra un archivo del servidor tras confirmarlo
+   *
+   * @param file - Archivo a borrar
+   */
+  remove(file: FileInfo) {
+    if (!confirm(`¿Borrar ${file.relativePath}?`)) return;
+    this.filesSvc.remove(file.fileId).subscribe({
+      next: () => this.load(),
+      error: err => this.error.set(this.describe(err)),
+    });
+  }
+
+  /**
+   * Mensaje del servidor (`{ error, code }`) o descripción genérica del error
+   */
+  private describe(err: unknown) {
+    return err instanceof HttpErrorResponse && err.error?.error ? err.error.error : describeUploadError(err);
+  }
+
+  contentUrl(file: FileInfo, download = false) {
+    return this.filesSvc.contentUrl(file, download);
+  }
+
+  thumbnailUrl(file: FileInfo) {
+    return this.filesSvc.thumbnailUrl(file);
+  }
+
+  /**
+   * El contenido solo se sirve cuando terminó el procesamiento
+   * (los archivos anteriores al procesamiento no tienen estado y están listos)
+   */
+  isReady(file: FileInfo) {
+    return !file.processing || file.processing.state === 'ready';
+  }
+
+  /**
+   * Texto del estado del procesamiento de un archivo
+   */
+  processingLabel(file: FileInfo) {
+    const processing = file.processing;
+    switch (processing?.state) {
+      case 'pending': return 'En cola para analizar…';
+      case 'processing': return processing.current === 'scan' ? 'Analizando…' : `Procesando (${processing.current})…`;
+      case 'quarantined': return `En cuarentena: ${processing.reason}`;
+      default: return 'Listo';
+    }
+  }
+
+  sortIndicator(sort: string) {
+    const query = this.query();
+    return query.sort === sort ? (query.order === 'asc' ? '▲' : '▼') : '';
+  }
+
+  /**
+   * Convierte bytes a formato legible (KB, MB, GB, TB)
+   *
+   * @param n - Número de bytes
+   * @returns String formateado (ej: "1.5 MB")
+   */
+  humanSize(n: number) {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let i = 0; let x = n;
+    while (x >= 1024 && i < units.length - 1) { x /= 1024; i++; }
+    return `${x.toFixed(1)} ${units[i]}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { Component, inject, signal } from '@angular/core';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Aviso de re-login cuando el servidor rechaza el token
+ *
+ * Mientras se muestra, las peticiones rechazadas quedan en espera; al guardar
+ * un token nuevo se reenvían y las subidas continúan donde estaban.
+ */
+@Component({
+  selector: 'app-login-prompt',
+  standalone: true,
+  templateUrl: './login-prompt.component.html',
+})
+export class LoginPromptComponent {
+  private auth = inject(AuthService);
+
+  visible = signal<boolean>(false);   // Hay peticiones esperando un token nuevo
+
+  constructor() {
+    this.auth.loginRequired$.subscribe(v => this.visible.set(v));
+  }
+
+  /**
+   * Guarda el token introducido por el usuario
+   *
+   * @param token - JWT pegado en el formulario
+   */
+  submit(token: string) {
+    token = token.trim();
+    if (token) this.auth.setToken(token);
+  }
+}
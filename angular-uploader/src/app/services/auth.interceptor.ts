@@ -0,0 +1,35 @@
+import { HttpErrorResponse, HttpEvent, HttpHandlerFn, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+
+/**
+ * Interceptor de autenticación para las llamadas a `/api`
+ *
+ * Adjunta el token como `Authorization: Bearer`. Ante un 401 la petición no
+ * falla: queda en espera hasta que el usuario introduce un token nuevo y se
+ * reenvía, de modo que las subidas en curso conservan su progreso.
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith('/api/')) return next(req);
+  return sendWithToken(req, next, inject(AuthService));
+};
+
+/**
+ * Envía la petición con el token actual y la repite tras un re-login si recibe 401
+ */
+function sendWithToken(req: HttpRequest<unknown>, next: HttpHandlerFn, auth: AuthService): Observable<HttpEvent<unknown>> {
+  const token = auth.token;
+  const authorized = token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+
+  return next(authorized).pipe(
+    catchError(err => {
+      if (!(err instanceof HttpErrorResponse) || err.status !== 401) return throwError(() => err);
+
+      // Si otra petición ya obtuvo un token nuevo se reintenta directamente
+      const renewed$ = auth.token && auth.token !== token ? of(auth.token) : auth.requireLogin();
+      return renewed$.pipe(switchMap(() => sendWithToken(req, next, auth)));
+    })
+  );
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { filter, skip, take } from 'rxjs/operators';
+
+/**
+ * Clave de localStorage donde se guarda el token
+ */
+const TOKEN_STORAGE_KEY = 'uploader.token';
+
+/**
+ * Token de acceso del usuario y petición de re-login
+ *
+ * El interceptor de autenticación adjunta el token a las llamadas a la API y,
+ * ante un 401, pide un token nuevo y espera a que el usuario lo introduzca.
+ */
+@Injectable({ providedIn: 'root' })
+export class AuthService {
+  token$ = new BehaviorSubject<string | null>(localStorage.getItem(TOKEN_STORAGE_KEY));
+  loginRequired$ = new BehaviorSubject<boolean>(false);  // Hay peticiones esperando un token nuevo
+
+  get token() {
+    return this.token$.value;
+  }
+
+  /**
+   * Guarda un token nuevo y libera las peticiones que lo esperaban
+   *
+   * @param token - JWT emitido para el usuario
+   */
+  setToken(token: string) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    this.loginRequired$.next(false);
+    this.token$.next(token);
+  }
+
+  /**
+   * Olvida el token actual
+   */
+  logout() {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    this.token$.next(null);
+  }
+
+  /**
+   * Pide al usuario que vuelva a autenticarse
+   *
+   * @returns Observable que emite el próximo token introducido
+   */
+  requireLogin(): Observable<string> {
+    this.loginRequired$.next(true);
+    return this.token$.pipe(
+      skip(1),
+      filter((token): token is string => !!token),
+      take(1)
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Límite de ancho de banda y horario de subida
+ *
+ * No dependen de Angular ni del DOM para poder usarse también en el worker.
+ */
+
+/**
+ * Configuración del limitador
+ */
+const BANDWIDTH_CONFIG = {
+  BURST_SECONDS: 1 // Bytes que se pueden acumular sin enviar, en segundos al ritmo límite
+} as const;
+
+/**
+ * Cubo de tokens para limitar los bytes por segundo
+ *
+ * Cada envío reserva sus bytes antes de salir. Si no hay saldo, el cubo queda
+ * en deuda y el envío espera a que el ritmo límite la repague; así varios
+ * chunks en paralelo se reparten el límite en orden de llegada. Si el límite
+ * cambia mientras alguien espera, la espera se recalcula con `waitMs`.
+ * Sin límite (`null`) nunca se espera.
+ */
+export class TokenBucket {
+  private level = 0;                  // Bytes disponibles (negativo: deuda)
+  private refilled = 0;               // Bytes repuestos desde el principio (contador creciente)
+  private updatedAt = performance.now();
+  private rate: number | null = null; // Bytes por segundo
+
+  /**
+   * Cambia el límite, repagando antes lo acumulado con el anterior
+   *
+   * @param bytesPerSecond - Nuevo límite, o null (o 0) para no limitar
+   */
+  setRate(bytesPerSecond: number | null) {
+    this.refill();
+    this.rate = bytesPerSecond && bytesPerSecond > 0 ? bytesPerSecond : null;
+    if (!this.rate && this.level < 0) {
+      // Sin límite se perdonan las deudas: todas las esperas terminan
+      this.refilled -= this.level;
+      this.level = 0;
+    }
+  }
+
+  /**
+   * Reserva bytes para un envío
+   *
+   * @param bytes - Bytes que se van a enviar
+   * @returns Turno que se pasa a `waitMs`
+   */
+  reserve(bytes: number): number {
+    this.refill();
+    if (!this.rate) return this.refilled;
+    this.level -= bytes;
+    return this.refilled + Math.max(0, -this.level);
+  }
+
+  /**
+   * Milisegundos que faltan para que llegue un turno (0 si ya puede enviarse)
+   *
+   * @param ticket - Turno devuelto por `reserve`
+   */
+  waitMs(ticket: number): number {
+    this.refill();
+    const missing = ticket - this.refilled;
+    if (!this.rate || missing <= 0) return 0;
+    return Math.ceil((missing / this.rate) * 1000);
+  }
+
+  /**
+   * Repone los bytes correspondientes al tiempo transcurrido
+   */
+  private refill() {
+    const now = performance.now();
+    if (this.rate) {
+      const added = ((now - this.updatedAt) / 1000) * this.rate;
+      const burst = this.rate * BANDWIDTH_CONFIG.BURST_SECONDS;
+      const level = Math.min(burst, this.level + added);
+      this.refilled += Math.max(0, level - this.level);
+      this.level = level;
+    }
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Menor de dos límites de ancho de banda (null = sin límite)
+ */
+export function combinedLimit(a: number | null, b: number | null): number | null {
+  if (a && b) return Math.min(a, b);
+  return a || b || null;
+}
+
+/**
+ * Franja horaria en la que se permite subir, en hora local
+ *
+ * Si `end` es anterior a `start` la franja cruza la medianoche
+ * (p. ej. de 22:00 a 06:00).
+ */
+export interface UploadSchedule {
+  start: string;                      // "HH:MM"
+  end: string;                        // "HH:MM"
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convierte "HH:MM" en milisegundos desde la medianoche
+ *
+ * @param value - Hora en formato 24 h
+ * @returns Milisegundos, o NaN si el formato no es válido
+ */
+export function parseClock(value: string): number {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  if (!match) return NaN;
+  return (Number(match[1]) * 60 + Number(match[2])) * 60 * 1000;
+}
+
+/**
+ * Comprueba que una franja tenga horas válidas y distintas
+ *
+ * @returns Motivo del rechazo, o null si es válida
+ */
+export function validateSchedule(schedule: UploadSchedule): string | null {
+  const start = parseClock(schedule.start);
+  const end = parseClock(schedule.end);
+  if (Number.isNaN(start) || Number.isNaN(end)) return 'Las horas deben tener el formato HH:MM';
+  if (start === end) return 'La hora de inicio y la de fin deben ser distintas';
+  return null;
+}
+
+/**
+ * Milisegundos desde la medianoche local de una fecha
+ */
+function timeOfDay(date: Date) {
+  return ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000 + date.getMilliseconds();
+}
+
+/**
+ * Indica si una fecha cae dentro de la franja
+ *
+ * @param schedule - Franja válida
+ * @param date - Momento a comprobar
+ */
+export function isWithinSchedule(schedule: UploadSchedule, date: Date): boolean {
+  const start = parseClock(schedule.start);
+  const end = parseClock(schedule.end);
+  const now = timeOfDay(date);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Milisegundos hasta el próximo inicio o fin de la franja
+ *
+ * @param schedule - Franja válida
+ * @param date - Momento actual
+ */
+export function msUntilScheduleChange(schedule: UploadSchedule, date: Date): number {
+  const now = timeOfDay(date);
+  return Math.min(...[parseClock(schedule.start), parseClock(schedule.end)]
+    .map(boundary => (boundary - now + DAY_MS) % DAY_MS || DAY_MS));
+}
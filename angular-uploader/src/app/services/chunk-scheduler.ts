@@ -0,0 +1,343 @@
+/**
+ * Parte del archivo ya almacenada en el servidor (sesiones de partes variables)
+ */
+export interface UploadedPart {
+  chunkIndex: number;
+  offset: number;                     // Byte del archivo donde empieza
+  size: number;                       // Bytes de la parte
+}
+
+/**
+ * Parte del archivo que hay que enviar
+ */
+export interface PlannedPart {
+  index: number;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Límites de tamaño de chunk que acepta el servidor
+ */
+export interface ChunkLimits {
+  minChunkSize: number;
+  maxChunkSize: number;
+  fixedChunkSize?: number;            // Sesión de tamaño fijo: todos los chunks miden esto
+}
+
+/**
+ * Contrato de partes de una sesión, tal como lo devuelve `/init`
+ */
+export interface PartContract {
+  recommendedChunkSize: number;
+  uploadedChunks?: number[];
+  variableParts?: boolean;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  uploadedParts?: UploadedPart[];
+}
+
+/**
+ * Límites de tamaño de chunk según el contrato de la sesión
+ *
+ * @param contract - Contrato devuelto por el servidor
+ * @returns Límites de las partes variables, o el tamaño fijo acordado
+ */
+export function chunkLimits(contract: PartContract): ChunkLimits {
+  if (contract.variableParts && contract.minChunkSize && contract.maxChunkSize) {
+    return { minChunkSize: contract.minChunkSize, maxChunkSize: contract.maxChunkSize };
+  }
+  const size = contract.recommendedChunkSize;
+  return { minChunkSize: size, maxChunkSize: size, fixedChunkSize: size };
+}
+
+/**
+ * Partes ya almacenadas según el contrato de la sesión
+ *
+ * En sesiones de tamaño fijo el tramo se deduce del índice.
+ *
+ * @param contract - Contrato devuelto por el servidor
+ * @param fileSize - Tamaño del archivo
+ */
+export function uploadedPartsOf(contract: PartContract, fileSize: number): UploadedPart[] {
+  if (contract.uploadedParts) return contract.uploadedParts;
+  const size = contract.recommendedChunkSize;
+  return (contract.uploadedChunks || []).map(chunkIndex => ({
+    chunkIndex,
+    offset: chunkIndex * size,
+    size: Math.min(size, fileSize - chunkIndex * size),
+  }));
+}
+
+/**
+ * Parámetros del planificador adaptativo
+ */
+const SCHEDULER_CONFIG = {
+  INITIAL_CHUNK_SIZE: 1024 * 1024,    // Primer chunk: pequeño para medir pronto la red
+  CHUNK_ALIGNMENT: 64 * 1024,         // Los tamaños se redondean a múltiplos de este valor
+  TARGET_CHUNK_MS: 2000,              // Duración buscada para cada chunk
+  INITIAL_CONCURRENCY: 2,
+  MAX_CONCURRENCY: 16,
+  GAIN_THRESHOLD: 0.1,                // Mejora mínima de throughput para seguir creciendo
+  LOSS_THRESHOLD: 0.25,               // Caída de throughput que hace reducir la concurrencia
+  PROBE_EVERY_ROUNDS: 4,              // Rondas estables entre dos sondeos de más concurrencia
+  RATE_SMOOTHING: 0.3,                // Peso de cada medida nueva en la media del throughput por chunk
+} as const;
+
+/**
+ * Planificador adaptativo de chunks, al estilo del control de congestión de TCP
+ *
+ * Mide la latencia y el throughput de cada chunk y ajusta sobre la marcha:
+ * - Concurrencia: por rondas (tantos chunks como la concurrencia actual).
+ *   Al principio se duplica mientras el throughput total mejore (arranque
+ *   lento); después sube de uno en uno, sondea periódicamente si un chunk
+ *   más en paralelo aporta, baja si el throughput cae y se reduce a la
+ *   mitad ante un fallo.
+ * - Tamaño de chunk: el que tarda unos `TARGET_CHUNK_MS` al throughput
+ *   medido por chunk, como mucho el doble del anterior y dentro de los
+ *   límites del servidor. Ante un fallo se reduce a la mitad para perder
+ *   menos en redes inestables.
+ *
+ * Así una Wi-Fi lenta acaba con chunks pequeños y poca concurrencia, y una
+ * LAN rápida con chunks grandes y muchos en paralelo.
+ */
+export class ChunkScheduler {
+  private _concurrency: number = SCHEDULER_CONFIG.INITIAL_CONCURRENCY;
+  private size: number;
+  private streamRate = 0;             // Bytes/ms de un chunk (media móvil)
+  private slowStart = true;
+  private bestRate = 0;               // Mejor throughput total de una ronda (bytes/ms)
+  private roundStart = performance.now();
+  private roundBytes = 0;
+  private roundSamples = 0;
+  private stableRounds = 0;
+  private probeBase?: number;         // Throughput antes de sondear con un chunk más en paralelo
+  private rateCap?: number;           // Límite de ancho de banda (bytes/ms), si lo hay
+
+  /**
+   * @param limits - Límites de tamaño del servidor
+   * @param maxConcurrency - Concurrencia máxima (1 para protocolos secuenciales)
+   */
+  constructor(private limits: ChunkLimits, private maxConcurrency: number = SCHEDULER_CONFIG.MAX_CONCURRENCY) {
+    this.size = this.clamp(SCHEDULER_CONFIG.INITIAL_CHUNK_SIZE);
+    this._concurrency = Math.min(this._concurrency, maxConcurrency);
+  }
+
+  /**
+   * Chunks que pueden enviarse en paralelo ahora mismo
+   */
+  get concurrency() {
+    return this._concurrency;
+  }
+
+  /**
+   * Tamaño para el siguiente chunk
+   */
+  nextChunkSize() {
+    if (this.limits.fixedChunkSize) return this.limits.fixedChunkSize;
+    if (this.streamRate) {
+      this.size = this.clamp(Math.min(this.streamRate * SCHEDULER_CONFIG.TARGET_CHUNK_MS, this.size * 2));
+    }
+    // Con límite de ancho de banda un chunk no debe superar lo que se envía en TARGET_CHUNK_MS a ese ritmo
+    return this.rateCap ? this.clamp(Math.min(this.size, this.rateCap * SCHEDULER_CONFIG.TARGET_CHUNK_MS)) : this.size;
+  }
+
+  /**
+   * Aplica un límite de ancho de banda al tamaño de los chunks
+   *
+   * Evita chunks que se envíen a ráfagas muy por encima del límite y
+   * esperen después mucho tiempo. La medida de la red no cambia: al quitar
+   * el límite se vuelve al tamaño adaptativo.
+   *
+   * @param bytesPerSecond - Límite, o null para quitarlo
+   */
+  setRateCap(bytesPerSecond: number | null) {
+    this.rateCap = bytesPerSecond ? bytesPerSecond / 1000 : undefined;
+  }
+
+  /**
+   * Registra un chunk enviado con éxito
+   *
+   * @param bytes - Tamaño del chunk
+   * @param ms - Tiempo de la petición
+   */
+  recordSuccess(bytes: number, ms: number) {
+    const rate = bytes / Math.max(1, ms);
+    this.streamRate = this.streamRate
+      ? this.streamRate + SCHEDULER_CONFIG.RATE_SMOOTHING * (rate - this.streamRate)
+      : rate;
+
+    this.roundBytes += bytes;
+    if (++this.roundSamples >= this._concurrency) this.endRound();
+  }
+
+  /**
+   * Registra un chunk fallido: reduce concurrencia y tamaño a la mitad
+   */
+  recordFailure() {
+    this.slowStart = false;
+    this.probeBase = undefined;
+    this._concurrency = Math.max(1, Math.floor(this._concurrency / 2));
+    this.size = this.clamp(this.size / 2);
+    this.startRound();
+  }
+
+  /**
+   * Descarta la ronda en curso (p. ej. tras una pausa, que no es tiempo de red)
+   */
+  restartRound() {
+    this.startRound();
+  }
+
+  private startRound() {
+    this.roundStart = performance.now();
+    this.roundBytes = 0;
+    this.roundSamples = 0;
+  }
+
+  /**
+   * Ajusta la concurrencia con el throughput total de la ronda que termina
+   */
+  private endRound() {
+    const rate = this.roundBytes / Math.max(1, performance.now() - this.roundStart);
+    const improved = rate > this.bestRate * (1 + SCHEDULER_CONFIG.GAIN_THRESHOLD);
+    const dropped = rate < this.bestRate * (1 - SCHEDULER_CONFIG.LOSS_THRESHOLD);
+
+    if (this.probeBase !== undefined) {
+      // Resultado del sondeo: se conserva el chunk extra solo si aportó throughput
+      if (rate <= this.probeBase * (1 + SCHEDULER_CONFIG.GAIN_THRESHOLD)) this._concurrency--;
+      this.probeBase = undefined;
+      this.bestRate = Math.max(this.bestRate, rate);
+    } else if (improved) {
+      this.bestRate = rate;
+      this._concurrency = this.slowStart ? this._concurrency * 2 : this._concurrency + 1;
+    } else if (dropped) {
+      // La red cambió o hay congestión: se reduce y se toma la nueva referencia
+      this.slowStart = false;
+      this.bestRate = rate;
+      this._concurrency--;
+    } else {
+      // Meseta: se sale del arranque lento y de vez en cuando se prueba un chunk más
+      this.slowStart = false;
+      if (++this.stableRounds >= SCHEDULER_CONFIG.PROBE_EVERY_ROUNDS) {
+        this.stableRounds = 0;
+        this.probeBase = rate;
+        this._concurrency++;
+      }
+    }
+
+    this._concurrency = Math.min(this.maxConcurrency, Math.max(1, this._concurrency));
+    this.startRound();
+  }
+
+  private clamp(size: number) {
+    const aligned = size >= SCHEDULER_CONFIG.CHUNK_ALIGNMENT
+      ? Math.floor(size / SCHEDULER_CONFIG.CHUNK_ALIGNMENT) * SCHEDULER_CONFIG.CHUNK_ALIGNMENT
+      : Math.floor(size);
+    return Math.min(this.limits.maxChunkSize, Math.max(this.limits.minChunkSize, aligned));
+  }
+}
+
+/**
+ * Reparte el archivo en partes con índice y offset
+ *
+ * Primero entrega los huecos entre partes ya subidas, cuyo índice y tramo
+ * están fijados por sus vecinas; después trocea el resto del archivo con el
+ * tamaño que pida el planificador. Los índices siguen siempre el orden de
+ * los offsets, como exige el servidor.
+ */
+export class PartPlanner {
+  private pending: PlannedPart[] = [];
+  private nextOffset: number;
+  private nextIndex: number;
+  private parts = new Map<number, { offset: number; size: number }>();
+  readonly uploadedBytes: number;     // Bytes que ya estaban en el servidor
+
+  /**
+   * @param fileSize - Tamaño del archivo
+   * @param uploaded - Partes ya almacenadas en el servidor
+   * @param limits - Límites de tamaño del servidor
+   */
+  constructor(private fileSize: number, uploaded: UploadedPart[], private limits: ChunkLimits) {
+    const fixed = limits.fixedChunkSize;
+    this.uploadedBytes = 0;
+    if (fixed) {
+      // Tamaño fijo: todos los chunks no subidos son huecos con tramo conocido
+      const done = new Set(uploaded.map(p => p.chunkIndex));
+      for (let index = 0; index * fixed < fileSize; index++) {
+        const part = { index, offset: index * fixed, size: Math.min(fixed, fileSize - index * fixed) };
+        this.parts.set(index, part);
+        if (done.has(index)) this.uploadedBytes += part.size;
+        else this.pending.push(part);
+      }
+      this.nextOffset = fileSize;
+      this.nextIndex = this.parts.size;
+      return;
+    }
+
+    // Partes variables: se rellenan los huecos entre partes subidas con los índices que faltan
+    let offset = 0;
+    let index = 0;
+    for (const part of [...uploaded].sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+      const missing = part.chunkIndex - index;
+      const gap = part.offset - offset;
+      if (missing < 0 || gap < 0 || (missing === 0) !== (gap === 0) || gap < missing * limits.minChunkSize || gap > missing * limits.maxChunkSize) {
+        throw new Error('Las partes ya subidas no encajan en el archivo');
+      }
+      for (let i = 0; i < missing; i++) {
+        // Reparto equitativo: cada parte queda dentro de los límites del servidor
+        const size = Math.floor(gap * (i + 1) / missing) - Math.floor(gap * i / missing);
+        this.add({ index: index + i, offset: part.offset - gap + Math.floor(gap * i / missing), size });
+      }
+      this.parts.set(part.chunkIndex, { offset: part.offset, size: part.size });
+      this.uploadedBytes += part.size;
+      offset = part.offset + part.size;
+      index = part.chunkIndex + 1;
+    }
+    this.nextOffset = offset;
+    this.nextIndex = index;
+  }
+
+  private add(part: PlannedPart) {
+    this.pending.push(part);
+    this.parts.set(part.index, part);
+  }
+
+  /**
+   * Indica si ya se entregaron todas las partes
+   */
+  get done() {
+    return !this.pending.length && this.nextOffset >= this.fileSize;
+  }
+
+  /**
+   * Siguiente parte a enviar
+   *
+   * @param chunkSize - Tamaño deseado si hay que trocear el resto del archivo
+   * @returns La parte, o undefined si ya no quedan
+   */
+  next(chunkSize: number): PlannedPart | undefined {
+    const gap = this.pending.shift();
+    if (gap) return gap;
+    if (this.nextOffset >= this.fileSize) return undefined;
+
+    // Un resto menor que el mínimo se une a esta parte si cabe, para no enviar una última parte diminuta
+    const remaining = this.fileSize - this.nextOffset;
+    let size = Math.min(chunkSize, remaining);
+    if (remaining - size < this.limits.minChunkSize && remaining <= this.limits.maxChunkSize) size = remaining;
+
+    const part = { index: this.nextIndex++, offset: this.nextOffset, size };
+    this.parts.set(part.index, part);
+    this.nextOffset += size;
+    return part;
+  }
+
+  /**
+   * Todas las partes del archivo en orden (subidas antes y planificadas)
+   */
+  all(): PlannedPart[] {
+    return [...this.parts.entries()]
+      .map(([index, { offset, size }]) => ({ index, offset, size }))
+      .sort((a, b) => a.index - b.index);
+  }
+}
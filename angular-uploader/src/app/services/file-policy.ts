@@ -0,0 +1,57 @@
+/**
+ * Política de tipos de archivo del servidor (`GET /api/uploads/policy`)
+ *
+ * Las listas de permitidos vacías admiten cualquier valor; las de denegados
+ * ganan siempre. Los tipos aceptan comodines (`video/*`) y las extensiones
+ * vienen en minúsculas y sin punto.
+ */
+export interface FilePolicy {
+  allowedTypes: string[];
+  deniedTypes: string[];
+  allowedExtensions: string[];
+  deniedExtensions: string[];
+  typeLimits: { type: string; maxBytes: number }[]; // Se aplica el primero cuyo tipo coincida
+  maxBytes: number;                                 // Tamaño máximo de cualquier archivo
+}
+
+/**
+ * Comprueba si un tipo MIME encaja con un patrón (`image/png`, `image/*` o `*`)
+ */
+function typeMatches(pattern: string, mimeType: string) {
+  if (pattern === '*' || pattern === '*/*') return true;
+  return pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+}
+
+/**
+ * Aplica la política del servidor a un archivo antes de subirlo
+ *
+ * Usa las mismas reglas que el servidor al inicializar la subida con el
+ * nombre y el tipo que declara el navegador. El contenido real solo lo
+ * verifica el servidor al recibir el primer chunk.
+ *
+ * @param policy - Política del servidor
+ * @param file - Archivo seleccionado
+ * @param humanSize - Formatea un tamaño para el mensaje
+ * @returns Motivo del rechazo, o null si se admite
+ */
+export function checkFilePolicy(policy: FilePolicy, file: File, humanSize: (bytes: number) => string): string | null {
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot > 0 ? file.name.slice(dot + 1).toLowerCase() : '';
+  if (policy.deniedExtensions.includes(extension) || (policy.allowedExtensions.length && !policy.allowedExtensions.includes(extension))) {
+    return extension ? `No se admiten archivos .${extension}` : 'No se admiten archivos sin extensión';
+  }
+
+  const mimeType = file.type.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+  if (policy.deniedTypes.some(p => typeMatches(p, mimeType)) || (policy.allowedTypes.length && !policy.allowedTypes.some(p => typeMatches(p, mimeType)))) {
+    return `No se admiten archivos de tipo ${mimeType}`;
+  }
+
+  const limit = policy.typeLimits.find(l => typeMatches(l.type, mimeType));
+  const maxBytes = limit ? Math.min(limit.maxBytes, policy.maxBytes) : policy.maxBytes;
+  if (file.size > maxBytes) {
+    return limit
+      ? `Los archivos de tipo ${mimeType} no pueden superar ${humanSize(maxBytes)}`
+      : `Archivo muy grande. Máximo: ${humanSize(maxBytes)}`;
+  }
+  return null;
+}
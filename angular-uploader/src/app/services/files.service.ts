@@ -0,0 +1,138 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { AuthService } from './auth.service';
+
+/**
+ * Resultado de un procesador tras la subida (antivirus, metadatos, miniatura...)
+ */
+export interface ProcessorResult {
+  status: 'done' | 'skipped' | 'failed' | 'quarantined';
+  data?: Record<string, unknown>;     // Lo que devolvió el procesador (p. ej. width, height)
+  error?: string;
+  finishedAt: string;
+}
+
+/**
+ * Procesamiento del archivo en el servidor después del ensamblado
+ *
+ * - pending / processing: el contenido aún no se puede descargar
+ * - ready: listo para usarse
+ * - quarantined: bloqueado (virus detectado o análisis fallido)
+ */
+export interface FileProcessing {
+  state: 'pending' | 'processing' | 'ready' | 'quarantined';
+  current?: string;                   // Procesador en ejecución
+  results: Record<string, ProcessorResult>;
+  reason?: string;                    // quarantined: motivo
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Archivo subido según el catálogo del servidor
+ */
+export interface FileInfo {
+  fileId: string;
+  owner: string;
+  uploadId: string;
+  originalFileName: string;
+  fileName: string;                   // Nombre final (renombrado si hubo colisión)
+  relativeDir: string;                // Carpeta relativa
+  relativePath: string;               // Carpeta relativa + nombre
+  version: number;                    // Versión dentro de la misma ruta
+  size: number;
+  mimeType: string;
+  sha256: string;                     // Hash real del contenido
+  contentUrl: string;                 // URL del contenido (admite Range)
+  thumbnailUrl?: string;              // URL de la miniatura, si se generó
+  processing?: FileProcessing;        // Ausente en archivos anteriores al procesamiento
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Filtros, orden y página de un listado de archivos
+ */
+export interface FileListQuery {
+  q?: string;                         // Texto contenido en la ruta
+  mimeType?: string;                  // Tipo exacto o familia (`video/`)
+  dir?: string;                       // Carpeta relativa exacta
+  sort?: 'name' | 'size' | 'createdAt';
+  order?: 'asc' | 'desc';
+  page?: number;                      // Página (desde 1)
+  pageSize?: number;
+}
+
+/**
+ * Página de archivos devuelta por el servidor
+ */
+export interface FileListPage {
+  items: FileInfo[];
+  total: number;                      // Archivos que cumplen los filtros
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Acceso a los archivos ya subidos: listado, metadatos, borrado y contenido
+ */
+@Injectable({ providedIn: 'root' })
+export class FilesService {
+  private http = inject(HttpClient);
+  private auth = inject(AuthService);
+
+  /**
+   * Lista los archivos del usuario
+   *
+   * @param query - Filtros, orden y página
+   */
+  list(query: FileListQuery = {}): Observable<FileListPage> {
+    let params = new HttpParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params = params.set(key, String(value));
+    }
+    return this.http.get<FileListPage>('/api/files', { params });
+  }
+
+  get(fileId: string): Observable<FileInfo> {
+    return this.http.get<FileInfo>(`/api/files/${encodeURIComponent(fileId)}`);
+  }
+
+  /**
+   * Borra un archivo del servidor
+   *
+   * @param fileId - ID del archivo
+   */
+  remove(fileId: string) {
+    return this.http.delete<{ ok: boolean; fileId: string }>(`/api/files/${encodeURIComponent(fileId)}`);
+  }
+
+  /**
+   * URL del contenido para usarla directamente en enlaces o `<video>`
+   *
+   * El navegador no puede añadir la cabecera Authorization a estas peticiones,
+   * así que el token viaja como `access_token` en la URL.
+   *
+   * @param file - Archivo del catálogo
+   * @param download - Forzar la descarga en lugar de abrirlo en el navegador
+   */
+  contentUrl(file: FileInfo, download = false) {
+    const params = new HttpParams({ fromObject: {
+      ...(this.auth.token ? { access_token: this.auth.token } : {}),
+      ...(download ? { download: '1' } : {}),
+    } });
+    const query = params.toString();
+    return query ? `${file.contentUrl}?${query}` : file.contentUrl;
+  }
+
+  /**
+   * URL de la miniatura para usarla en `<img>`, o null si el archivo no tiene
+   *
+   * @param file - Archivo del catálogo
+   */
+  thumbnailUrl(file: FileInfo) {
+    if (!file.thumbnailUrl) return null;
+    return this.auth.token ? `${file.thumbnailUrl}?access_token=${encodeURIComponent(this.auth.token)}` : file.thumbnailUrl;
+  }
+}
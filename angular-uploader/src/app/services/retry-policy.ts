@@ -0,0 +1,250 @@
+import { UPLOAD_CONFIG } from './upload-protocol';
+
+/**
+ * Política de reintentos de las subidas
+ *
+ * Clasifica los fallos, calcula esperas con backoff exponencial y jitter
+ * (respetando `Retry-After`), limita los reintentos por operación y por
+ * subida, y corta el envío mientras no hay red. No depende de Angular ni de
+ * RxJS para poder usarse también en el worker de subida: quien la usa decide
+ * cómo esperar (temporizador de RxJS o promesa).
+ */
+
+/**
+ * Tipo de fallo de una petición
+ *
+ * - transient: puede salir bien al repetirla (red, timeouts, 429, 5xx, datos corruptos en tránsito)
+ * - fatal: repetirla no cambia nada (400, 403, 404, 409, 413...)
+ * - auth: el token no vale; lo resuelve el re-login, no un reintento
+ */
+export type ErrorKind = 'transient' | 'fatal' | 'auth';
+
+/**
+ * Códigos de error del servidor que indican un fallo transitorio del chunk
+ * (p. ej. datos corruptos en tránsito) y que merece la pena reintentar
+ */
+export const RETRYABLE_ERROR_CODES = ['CHUNK_HASH_MISMATCH', 'CHECKSUM_MISMATCH'];
+
+/**
+ * Datos de una petición fallida que usa la política
+ */
+export interface RequestFailure {
+  status: number;                     // Estado HTTP (0 si no hubo respuesta)
+  code?: string;                      // Código estructurado del servidor
+  retryAfterMs?: number;              // Espera pedida por el servidor en `Retry-After`
+}
+
+/**
+ * Clasifica una petición fallida
+ *
+ * @param status - Estado HTTP (0 si no hubo respuesta)
+ * @param code - Código estructurado del servidor, si lo hay
+ */
+export function classifyError(status: number, code?: string): ErrorKind {
+  if (code && RETRYABLE_ERROR_CODES.includes(code)) return 'transient';
+  if (status === 401) return 'auth';
+  if (status === 0 || status === 408 || status === 429 || status >= 500) return 'transient';
+  return 'fatal';
+}
+
+/**
+ * Interpreta la cabecera `Retry-After` (segundos o fecha HTTP)
+ *
+ * @param header - Valor de la cabecera (opcional)
+ * @returns Milisegundos de espera, o undefined si no hay cabecera válida
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Espera antes de un reintento: backoff exponencial con jitter
+ *
+ * El rango `[mitad, total]` del backoff reparte en el tiempo los chunks que
+ * fallan a la vez. Si el servidor pide más espera con `Retry-After`, manda
+ * la suya (con un máximo, para no quedarse parado por una cabecera errónea).
+ *
+ * @param attempt - Reintentos ya hechos de esta operación (0 para el primero)
+ * @param retryAfterMs - Espera pedida por el servidor
+ * @returns Milisegundos de espera
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number) {
+  const backoff = Math.min(UPLOAD_CONFIG.MAX_RETRY_DELAY, UPLOAD_CONFIG.BASE_RETRY_DELAY * 2 ** attempt);
+  const jittered = backoff / 2 + Math.random() * backoff / 2;
+  return Math.max(jittered, Math.min(retryAfterMs ?? 0, UPLOAD_CONFIG.MAX_RETRY_AFTER));
+}
+
+/**
+ * Circuito de conectividad de una o varias subidas
+ *
+ * Se abre con el evento `offline` del navegador o tras varios fallos de red
+ * seguidos (`navigator.onLine` no siempre se entera de que la red cayó).
+ * Mientras está abierto no se envía nada y los fallos no gastan reintentos.
+ * Se cierra con el evento `online` o, si se abrió por fallos, tras un
+ * intervalo de prueba: entonces un solo fallo de red vuelve a abrirlo.
+ */
+export class CircuitBreaker {
+  private open = false;
+  private probing = false;                              // Cerrado a prueba tras un intervalo
+  private failures = 0;                                 // Fallos de red seguidos
+  private probeTimer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param onChange - Avisa de cada apertura (true) y cierre (false)
+   */
+  constructor(private onChange?: (open: boolean) => void) {}
+
+  get isOpen() {
+    return this.open;
+  }
+
+  /**
+   * Escucha los eventos `online`/`offline` del contexto actual (ventana o worker)
+   *
+   * @returns Función que deja de escucharlos
+   */
+  watchConnectivity(): () => void {
+    if (typeof addEventListener === 'undefined') return () => undefined;
+    const offline = () => this.trip(false);
+    const online = () => this.close();
+    addEventListener('offline', offline);
+    addEventListener('online', online);
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) this.trip(false);
+    return () => {
+      removeEventListener('offline', offline);
+      removeEventListener('online', online);
+    };
+  }
+
+  /**
+   * Registra una petición sin respuesta (estado 0)
+   */
+  recordNetworkFailure() {
+    if (this.open) return;
+    if (this.probing || ++this.failures >= UPLOAD_CONFIG.BREAKER_FAILURE_THRESHOLD) this.trip(true);
+  }
+
+  /**
+   * Registra una petición con respuesta: la red funciona
+   */
+  recordSuccess() {
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  /**
+   * Ejecuta `listener` una vez cuando el circuito se cierre
+   *
+   * @returns Función que cancela la espera
+   */
+  onClose(listener: () => void): () => void {
+    if (!this.open) {
+      listener();
+      return () => undefined;
+    }
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Abre el circuito
+   *
+   * @param probe - Programa un cierre de prueba (cuando no hay evento `online` que esperar)
+   */
+  private trip(probe: boolean) {
+    clearTimeout(this.probeTimer);
+    if (probe) this.probeTimer = setTimeout(() => this.close(true), UPLOAD_CONFIG.BREAKER_PROBE_INTERVAL);
+    if (this.open) return;
+    console.warn('🔌 Sin conexión: subidas en pausa hasta que vuelva la red');
+    this.open = true;
+    this.onChange?.(true);
+  }
+
+  /**
+   * Cierra el circuito y libera a quien esperaba
+   *
+   * @param probing - Cierre de prueba: el siguiente fallo de red lo reabre
+   */
+  private close(probing = false) {
+    clearTimeout(this.probeTimer);
+    this.failures = 0;
+    this.probing = probing;
+    if (!this.open) return;
+    console.log('🔌 Conexión recuperada: se reanudan las subidas');
+    this.open = false;
+    this.onChange?.(false);
+    const listeners = [...this.listeners];
+    this.listeners.clear();
+    listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Qué hacer tras un fallo
+ *
+ * - retry: repetir tras `delayMs`; cuenta como reintento
+ * - wait-network: esperar a que se cierre el circuito y repetir; no cuenta
+ * - fail: no se reintenta; `code` indica si se agotaron los reintentos
+ */
+export type RetryDecision =
+  | { action: 'retry'; delayMs: number }
+  | { action: 'wait-network' }
+  | { action: 'fail'; kind: ErrorKind; code?: 'RETRIES_EXHAUSTED' | 'RETRY_BUDGET_EXHAUSTED' };
+
+/**
+ * Reintentos de una subida
+ *
+ * Cada operación (chunk o PATCH) tiene un máximo de reintentos, y la subida
+ * entera un presupuesto compartido: si la red o el servidor fallan de forma
+ * persistente la subida termina con error en vez de reintentar sin fin.
+ */
+export class RetryPolicy {
+  private budget: number;
+
+  /**
+   * @param breaker - Circuito de conectividad (puede compartirse entre subidas)
+   * @param budget - Reintentos disponibles para toda la subida
+   */
+  constructor(private breaker: CircuitBreaker, budget: number = UPLOAD_CONFIG.RETRY_BUDGET) {
+    this.budget = budget;
+  }
+
+  /**
+   * Reintentos que quedan en el presupuesto de la subida
+   */
+  get remaining() {
+    return this.budget;
+  }
+
+  /**
+   * Decide qué hacer tras un fallo y actualiza el circuito
+   *
+   * @param failure - Petición fallida
+   * @param attempt - Reintentos ya hechos de esta operación
+   */
+  decide(failure: RequestFailure, attempt: number): RetryDecision {
+    const kind = classifyError(failure.status, failure.code);
+    if (kind !== 'transient') return { action: 'fail', kind };
+
+    // Los fallos mientras no hay red no gastan reintentos
+    if (failure.status === 0) this.breaker.recordNetworkFailure();
+    if (this.breaker.isOpen) return { action: 'wait-network' };
+
+    if (attempt >= UPLOAD_CONFIG.MAX_RETRIES) return { action: 'fail', kind, code: 'RETRIES_EXHAUSTED' };
+    if (this.budget <= 0) return { action: 'fail', kind, code: 'RETRY_BUDGET_EXHAUSTED' };
+    this.budget--;
+    return { action: 'retry', delayMs: backoffDelay(attempt, failure.retryAfterMs) };
+  }
+
+  /**
+   * Registra una petición con éxito
+   */
+  recordSuccess() {
+    this.breaker.recordSuccess();
+  }
+}
@@ -0,0 +1,214 @@
+import type { PartContract } from './chunk-scheduler';
+
+/**
+ * Piezas de la subida que comparten UploadService y el worker de subida
+ *
+ * No dependen de Angular ni del DOM para poder usarse dentro del worker.
+ */
+
+/**
+ * Información de progreso de subida en tiempo real
+ */
+export interface UploadProgress {
+  totalBytes: number;                 // Tamaño total del archivo
+  sentBytes: number;                  // Bytes ya enviados
+  percent: number;                    // Porcentaje completado (0-100)
+  currentSpeedBps?: number;          // Velocidad actual en bytes por segundo
+  etaSeconds?: number;               // Tiempo estimado restante en segundos
+}
+
+/**
+ * Configuración simple para la POC
+ */
+export const UPLOAD_CONFIG = {
+  MAX_FILE_SIZE: 10 * 1024 * 1024 * 1024, // 10GB
+  BASE_RETRY_DELAY: 1000, // ms, primer reintento (se dobla en cada uno)
+  MAX_RETRY_DELAY: 30000, // ms, tope del backoff exponencial
+  MAX_RETRY_AFTER: 120000, // ms, tope de la espera pedida con Retry-After
+  MAX_RETRIES: 4, // reintentos por chunk o PATCH
+  RETRY_BUDGET: 20, // reintentos para toda la subida
+  BREAKER_FAILURE_THRESHOLD: 3, // fallos de red seguidos que abren el circuito
+  BREAKER_PROBE_INTERVAL: 10000, // ms hasta volver a probar la red tras abrir el circuito por fallos
+  TUS_MIN_PATCH_SIZE: 256 * 1024, // bytes
+  TUS_MAX_PATCH_SIZE: 64 * 1024 * 1024, // bytes
+  ASSEMBLY_POLL_INTERVAL: 1000, // ms entre consultas del estado de ensamblado
+  EVENTS_RETRY_DELAY: 5000 // ms antes de reabrir el stream de eventos si el servidor lo cierra
+} as const;
+
+/**
+ * SHA-256 con Web Crypto
+ *
+ * @param data - Blob o texto a resumir
+ * @returns Promesa con los bytes del hash
+ */
+export async function sha256(data: Blob | string): Promise<Uint8Array> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * Calcula el SHA-256 en hexadecimal usando Web Crypto
+ *
+ * @param data - Blob o texto a resumir
+ * @returns Promesa con el hash hexadecimal
+ */
+export async function sha256Hex(data: Blob | string): Promise<string> {
+  return Array.from(await sha256(data), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Constantes de ronda de SHA-256 (FIPS 180-4)
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 incremental
+ *
+ * Web Crypto solo resume buffers completos; con esta clase el archivo se
+ * resume por trozos sin tenerlo entero en memoria.
+ */
+export class Sha256 {
+  private state = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  private block = new Uint8Array(64);   // Bloque pendiente de completar
+  private blockLength = 0;
+  private length = 0;                   // Bytes resumidos en total
+  private words = new Uint32Array(64);
+
+  update(data: Uint8Array) {
+    let offset = 0;
+    this.length += data.length;
+    if (this.blockLength) {
+      offset = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, offset), this.blockLength);
+      this.blockLength += offset;
+      if (this.blockLength < 64) return this;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+    for (; offset + 64 <= data.length; offset += 64) this.compress(data, offset);
+    this.block.set(data.subarray(offset));
+    this.blockLength = data.length - offset;
+    return this;
+  }
+
+  /**
+   * Termina el resumen (la instancia no admite más datos)
+   *
+   * @returns Hash hexadecimal
+   */
+  digestHex() {
+    const bits = this.length * 8;
+    // 0x80, ceros hasta 56 bytes del bloque y la longitud en bits como entero de 64 bits
+    const padding = new Uint8Array((this.blockLength < 56 ? 64 : 128) - this.blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 2 ** 32));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+    return Array.from(this.state, word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  private compress(data: Uint8Array, offset: number) {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    const state = this.state;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+// Bytes que se leen de cada vez al resumir un archivo completo
+const FILE_HASH_SLICE = 4 * 1024 * 1024;
+
+/**
+ * SHA-256 hexadecimal de un archivo completo, leído por trozos
+ *
+ * Es el mismo hash que el servidor calcula al ensamblar, así que se envía
+ * en `/complete` para verificar el archivo final.
+ *
+ * @param file - Archivo a resumir
+ * @param signal - Cancela la lectura (p. ej. al cancelar la subida)
+ * @returns Promesa con el hash hexadecimal
+ */
+export async function fileSha256(file: Blob, signal?: AbortSignal): Promise<string> {
+  const hash = new Sha256();
+  for (let offset = 0; offset < file.size; offset += FILE_HASH_SLICE) {
+    signal?.throwIfAborted();
+    hash.update(new Uint8Array(await file.slice(offset, offset + FILE_HASH_SLICE).arrayBuffer()));
+  }
+  return hash.digestHex();
+}
+
+/**
+ * Mensajes del hilo principal al worker de subida
+ *
+ * - start: sesión ya inicializada y archivo a subir
+ * - pause / resume: mismo efecto que `isPaused$` en el hilo principal; con `abort` la pausa corta los chunks en vuelo
+ * - token: token nuevo tras un re-login pedido con `unauthorized`
+ * - rate: límite de ancho de banda vigente (para el tamaño de los chunks)
+ * - grant: el hilo principal concede el ancho de banda pedido con `reserve`
+ */
+export type UploadWorkerCommand =
+  | { type: 'start'; file: File; session: PartContract & { uploadId: string }; token: string | null; paused: boolean }
+  | { type: 'pause'; abort: boolean }
+  | { type: 'resume' }
+  | { type: 'token'; token: string }
+  | { type: 'rate'; bytesPerSecond: number | null }
+  | { type: 'grant'; id: number };
+
+/**
+ * Mensajes del worker de subida al hilo principal
+ *
+ * - progress: progreso listo para publicar en `progress$`
+ * - chunk: el servidor confirmó un chunk (para el registro local de la subida)
+ * - unauthorized: el servidor rechazó el token enviado; el worker espera otro
+ * - reserve: pide ancho de banda para enviar `bytes`; el worker espera el `grant` con el mismo id
+ * - done: todos los chunks están en el servidor; falta completar la subida
+ * - error: fallo definitivo con el código estructurado del servidor, si lo hubo
+ */
+export type UploadWorkerEvent =
+  | { type: 'progress'; progress: UploadProgress }
+  | { type: 'chunk'; index: number }
+  | { type: 'unauthorized'; token: string | null }
+  | { type: 'reserve'; id: number; bytes: number }
+  | { type: 'done'; totalChunks: number; fileHash: string }
+  | { type: 'error'; message: string; code?: string; status?: number };
@@ -0,0 +1,317 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { UploadControl, UploadProgress, UploadService, describeUploadError } from './upload.service';
+import { UploadSchedule, isWithinSchedule, msUntilScheduleChange } from './bandwidth';
+
+/**
+ * Estado de un archivo dentro de la cola
+ */
+export type QueueItemState = 'queued' | 'uploading' | 'paused' | 'done' | 'error' | 'cancelled';
+
+/**
+ * Archivo en la cola de subidas con su progreso y estado propios
+ */
+export interface QueueItem {
+  id: string;                         // ID local del elemento
+  file: File;                         // Archivo a subir
+  relativePath: string;               // Ruta relativa (carpetas soltadas) o el nombre del archivo
+  state: QueueItemState;              // Estado actual
+  progress: UploadProgress;           // Progreso de este archivo
+  error?: string;                     // Último error, si lo hubo
+  uploadId?: string;                  // Sesión del servidor a reanudar (subidas recuperadas tras recargar)
+  rateLimit?: number;                 // Límite de bytes/s de este archivo
+  heldBySchedule?: boolean;           // Pausado por estar fuera del horario de subida
+  assemblyPercent?: number;           // Porcentaje ensamblado en el servidor, mientras se ensambla
+}
+
+/**
+ * Configuración de la cola
+ */
+const QUEUE_CONFIG = {
+  MAX_CONCURRENT_FILES: 2 // Archivos subiéndose a la vez (cada uno con su propia concurrencia de chunks)
+} as const;
+
+/**
+ * Cola de subidas de múltiples archivos y carpetas
+ *
+ * Cada archivo tiene su propio control (progreso y pausa) y se sube con
+ * UploadService. La cola limita cuántos archivos se suben a la vez y permite
+ * pausar, reanudar, cancelar y reintentar cada elemento por separado.
+ *
+ * Con un horario de subida, fuera de la franja los elementos en curso se
+ * pausan (con el mismo `isPaused$` que la pausa manual) y al volver a ella
+ * se reanudan solos; los que el usuario pausó siguen en pausa.
+ */
+@Injectable({ providedIn: 'root' })
+export class UploadQueueService {
+  private uploadSvc = inject(UploadService);
+
+  // Estado de la cola para los componentes
+  items$ = new BehaviorSubject<QueueItem[]>([]);
+  isRunning$ = new BehaviorSubject<boolean>(false);   // La cola está procesando elementos
+  schedule$ = new BehaviorSubject<UploadSchedule | null>(null); // Franja horaria de subida (null: siempre)
+  inSchedule$ = new BehaviorSubject<boolean>(true);   // Ahora se puede subir según el horario
+
+  // Control y suscripción activos por elemento
+  private controls = new Map<string, UploadControl>();
+  private subscriptions = new Map<string, Subscription>();
+  private nextId = 0;
+  private scheduleTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Añade archivos a la cola
+   *
+   * Si la cola ya está en marcha, los nuevos elementos empiezan en cuanto
+   * haya hueco.
+   *
+   * @param entries - Archivos con su ruta relativa opcional y, si se recuperan del registro local, la sesión a reanudar
+   */
+  add(entries: { file: File; relativePath?: string; uploadId?: string }[]) {
+    const added: QueueItem[] = entries.map(({ file, relativePath, uploadId }) => ({
+      id: String(++this.nextId),
+      file,
+      relativePath: relativePath || file.name,
+      state: 'queued',
+      progress: { totalBytes: file.size, sentBytes: 0, percent: 0 },
+      uploadId,
+    }));
+    this.items$.next([...this.items$.value, ...added]);
+    if (this.isRunning$.value) this.pump();
+  }
+
+  /**
+   * Arranca el procesamiento de la cola
+   */
+  start() {
+    this.isRunning$.next(true);
+    this.pump();
+  }
+
+  /**
+   * Pausa un elemento en curso
+   *
+   * @param id - ID del elemento
+   */
+  pause(id: string) {
+    const control = this.controls.get(id);
+    if (!control) return;
+    control.isPaused$.next(true);
+    this.patch(id, { state: 'paused', heldBySchedule: false });
+  }
+
+  /**
+   * Reanuda un elemento pausado
+   *
+   * También reanuda los pausados por el horario: el usuario decide.
+   *
+   * @param id - ID del elemento
+   */
+  resume(id: string) {
+    const control = this.controls.get(id);
+    if (!control) return;
+    control.isPaused$.next(false);
+    this.patch(id, { state: 'uploading', heldBySchedule: false });
+  }
+
+  /**
+   * Cambia el límite de ancho de banda de un elemento, también en plena subida
+   *
+   * @param id - ID del elemento
+   * @param bytesPerSecond - Límite, o null para quitarlo
+   */
+  setRateLimit(id: string, bytesPerSecond: number | null) {
+    this.controls.get(id)?.rateLimit$.next(bytesPerSecond);
+    this.patch(id, { rateLimit: bytesPerSecond ?? undefined });
+  }
+
+  /**
+   * Define (o quita) la franja horaria en la que se permite subir
+   *
+   * @param schedule - Franja válida, o null para subir a cualquier hora
+   */
+  setSchedule(schedule: UploadSchedule | null) {
+    this.schedule$.next(schedule);
+    this.checkSchedule();
+  }
+
+  /**
+   * Cancela un elemento (en cola o en curso) y libera su hueco
+   *
+   * Aborta sus peticiones en curso y pide al servidor que descarte la sesión.
+   *
+   * @param id - ID del elemento
+   */
+  cancel(id: string) {
+    // Primero se desuscribe (aborta peticiones) y luego se avisa al servidor
+    const control = this.controls.get(id);
+    this.stop(id);
+    if (control) this.uploadSvc.cancel(control);
+    this.patch(id, { state: 'cancelled' });
+    this.pump();
+  }
+
+  /**
+   * Vuelve a encolar un elemento fallido o cancelado
+   *
+   * Tras un fallo el servidor reanuda la sesión existente, así que solo se
+   * envían los chunks que falten; tras una cancelación se empieza de cero.
+   * Las subidas recuperadas pasan por la inicialización normal, que también
+   * reanuda la sesión si sigue abierta.
+   *
+   * @param id - ID del elemento
+   */
+  retry(id: string) {
+    this.patch(id, { state: 'queued', error: undefined, uploadId: undefined });
+    if (this.isRunning$.value) this.pump();
+  }
+
+  /**
+   * Quita un elemento de la cola, cancelándolo si estaba en curso
+   *
+   * @param id - ID del elemento
+   */
+  remove(id: string) {
+    // Primero se desuscribe (aborta peticiones) y luego se avisa al servidor
+    const control = this.controls.get(id);
+    this.stop(id);
+    if (control) this.uploadSvc.cancel(control);
+    this.items$.next(this.items$.value.filter(item => item.id !== id));
+    this.pump();
+  }
+
+  /**
+   * Quita de la cola los elementos terminados
+   */
+  clearFinished() {
+    this.items$.next(this.items$.value.filter(item => item.state !== 'done' && item.state !== 'cancelled'));
+  }
+
+  /**
+   * Cancela todos los elementos y detiene la cola
+   */
+  cancelAll() {
+    for (const item of this.items$.value) {
+      if (item.state === 'queued' || this.isActive(item)) this.cancel(item.id);
+    }
+    this.isRunning$.next(false);
+  }
+
+  /**
+   * Aplica el horario: pausa o reanuda los elementos en curso al entrar o salir de la franja
+   *
+   * Se vuelve a llamar a sí misma en el siguiente cambio de franja.
+   */
+  private checkSchedule() {
+    clearTimeout(this.scheduleTimer);
+    const schedule = this.schedule$.value;
+    const now = new Date();
+    const inSchedule = !schedule || isWithinSchedule(schedule, now);
+
+    if (inSchedule !== this.inSchedule$.value) {
+      this.inSchedule$.next(inSchedule);
+      console.log(inSchedule ? '🕒 Dentro del horario de subida: se reanudan las subidas' : '🕒 Fuera del horario de subida: se pausan las subidas');
+      for (const item of this.items$.value) {
+        const control = this.controls.get(item.id);
+        if (!control) continue;
+        if (!inSchedule && item.state === 'uploading') {
+          control.isPaused$.next(true);
+          this.patch(item.id, { state: 'paused', heldBySchedule: true });
+        } else if (inSchedule && item.heldBySchedule) {
+          control.isPaused$.next(false);
+          this.patch(item.id, { state: 'uploading', heldBySchedule: false });
+        }
+      }
+    }
+
+    if (schedule) this.scheduleTimer = setTimeout(() => this.checkSchedule(), msUntilScheduleChange(schedule, now));
+  }
+
+  /**
+   * Lanza elementos en cola mientras haya huecos libres
+   */
+  private pump() {
+    if (!this.isRunning$.value) return;
+    let active = this.items$.value.filter(item => this.isActive(item)).length;
+    for (const item of this.items$.value) {
+      if (active >= QUEUE_CONFIG.MAX_CONCURRENT_FILES) break;
+      if (item.state !== 'queued') continue;
+      this.run(item);
+      active++;
+    }
+    if (!this.items$.value.some(item => item.state === 'queued' || this.isActive(item))) {
+      this.isRunning$.next(false);
+    }
+  }
+
+  /**
+   * Sube un elemento con su propio control de progreso y pausa
+   *
+   * @param item - Elemento a subir
+   */
+  private run(item: QueueItem) {
+    const control = this.uploadSvc.createControl();
+    control.rateLimit$.next(item.rateLimit ?? null);
+    this.controls.set(item.id, control);
+    this.patch(item.id, { state: 'uploading', error: undefined, heldBySchedule: false });
+
+    // Fuera del horario empieza en pausa y se reanuda al entrar en la franja
+    if (!this.inSchedule$.value) {
+      control.isPaused$.next(true);
+      this.patch(item.id, { state: 'paused', heldBySchedule: true });
+    }
+
+    // Solo se refleja el progreso mientras el elemento sigue activo
+    const progressSub = control.progress$.subscribe(progress => {
+      const current = this.items$.value.find(i => i.id === item.id);
+      if (progress.totalBytes > 0 && current && this.isActive(current)) this.patch(item.id, { progress });
+    });
+    const assemblySub = control.assembly$.subscribe(percent => {
+      const current = this.items$.value.find(i => i.id === item.id);
+      if (current && this.isActive(current)) this.patch(item.id, { assemblyPercent: percent ?? undefined });
+    });
+
+    const upload$ = item.uploadId
+      ? this.uploadSvc.resumeUpload(item.file, item.uploadId, control)
+      : this.uploadSvc.upload(item.file, item.relativePath, control);
+    const sub = upload$.subscribe({
+      error: (err) => this.finish(item.id, { state: 'error', error: describeUploadError(err) }),
+      complete: () => this.finish(item.id, {
+        state: 'done',
+        progress: { totalBytes: item.file.size, sentBytes: item.file.size, percent: 100 },
+      }),
+    });
+    sub.add(progressSub);
+    sub.add(assemblySub);
+    this.subscriptions.set(item.id, sub);
+  }
+
+  /**
+   * Registra el final de un elemento y deja paso al siguiente
+   */
+  private finish(id: string, patch: Partial<QueueItem>) {
+    this.subscriptions.delete(id);
+    this.controls.delete(id);
+    this.patch(id, { ...patch, assemblyPercent: undefined });
+    this.pump();
+  }
+
+  /**
+   * Detiene la subida en curso de un elemento, si la hay
+   */
+  private stop(id: string) {
+    this.subscriptions.get(id)?.unsubscribe();
+    this.subscriptions.delete(id);
+    this.controls.delete(id);
+  }
+
+  private isActive(item: QueueItem) {
+    return item.state === 'uploading' || item.state === 'paused';
+  }
+
+  /**
+   * Actualiza un elemento de forma inmutable y emite la nueva lista
+   */
+  private patch(id: string, patch: Partial<QueueItem>) {
+    this.items$.next(this.items$.value.map(item => item.id === id ? { ...item, ...patch } : item));
+  }
+}
@@ -0,0 +1,184 @@
+import { Injectable } from '@angular/core';
+import { sha256Hex } from './upload-protocol';
+
+/**
+ * Huella local de un archivo para reconocerlo al volver a seleccionarlo
+ */
+export interface FileFingerprint {
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  partialHash: string;                // SHA-256 del principio y el final del archivo
+}
+
+/**
+ * Subida registrada en IndexedDB para reanudarla tras recargar la página
+ */
+export interface StoredUpload extends FileFingerprint {
+  uploadId: string;                   // Sesión en el servidor
+  relativePath?: string;              // Ruta relativa dentro de una carpeta soltada
+  mimeType: string;
+  chunkSize: number;                  // Tamaño de chunk acordado (con partes variables, solo orientativo)
+  variableParts: boolean;             // La sesión admite partes de tamaño variable
+  acknowledged: number[];             // Índices de chunks confirmados por el servidor
+  createdAt: number;                  // Timestamps en ms
+  updatedAt: number;
+}
+
+/**
+ * Configuración de la base de datos local
+ */
+const STORE_CONFIG = {
+  DB_NAME: 'angular-uploader',
+  DB_VERSION: 1,
+  STORE_NAME: 'uploads',
+  PARTIAL_HASH_BYTES: 1024 * 1024 // Bytes del principio y del final que entran en la huella
+} as const;
+
+/**
+ * Calcula la huella de un archivo
+ *
+ * Además de nombre, tamaño y fecha de modificación resume el primer y el
+ * último MB, para detectar un archivo distinto con los mismos metadatos sin
+ * leerlo entero.
+ *
+ * @param file - Archivo a identificar
+ * @returns Promesa con la huella
+ */
+export async function fileFingerprint(file: File): Promise<FileFingerprint> {
+  const edge = STORE_CONFIG.PARTIAL_HASH_BYTES;
+  const sample = file.size <= 2 * edge ? file : new Blob([file.slice(0, edge), file.slice(file.size - edge)]);
+  return {
+    fileName: file.name,
+    fileSize: file.size,
+    lastModified: file.lastModified,
+    partialHash: await sha256Hex(sample),
+  };
+}
+
+/**
+ * Registro local de subidas en curso (IndexedDB)
+ *
+ * Guarda cada sesión de la API de chunks con la huella del archivo y los
+ * chunks confirmados, para ofrecer reanudarla si la pestaña se cierra a
+ * mitad. El navegador no permite guardar el `File`: el usuario debe volver a
+ * seleccionarlo y se comprueba que la huella coincida. El estado definitivo
+ * lo da siempre el servidor al reanudar.
+ *
+ * Si IndexedDB no está disponible (p. ej. navegación privada) las
+ * operaciones no hacen nada y la subida sigue igual, sin poder recuperarse.
+ */
+@Injectable({ providedIn: 'root' })
+export class UploadStoreService {
+  private db?: Promise<IDBDatabase | undefined>;
+
+  /**
+   * Abre (y crea si hace falta) la base de datos
+   *
+   * @returns Promesa con la base de datos, o undefined si no está disponible
+   */
+  private open(): Promise<IDBDatabase | undefined> {
+    this.db ??= new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(undefined);
+      const request = indexedDB.open(STORE_CONFIG.DB_NAME, STORE_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_CONFIG.STORE_NAME, { keyPath: 'uploadId' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB no disponible: las subidas no se podrán reanudar tras recargar', request.error);
+        resolve(undefined);
+      };
+    });
+    return this.db;
+  }
+
+  /**
+   * Ejecuta operaciones sobre el almacén en una única transacción
+   *
+   * Los fallos se registran en consola y no se propagan: perder el registro
+   * local no debe interrumpir una subida.
+   *
+   * @param mode - Modo de la transacción
+   * @param run - Operaciones; puede devolver la petición cuyo resultado interesa
+   * @returns Promesa con ese resultado al confirmarse la transacción
+   */
+  private async transaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    return new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE_CONFIG.STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_CONFIG.STORE_NAME));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = tx.onabort = () => reject(tx.error);
+    }).catch(err => {
+      console.warn('Error en el registro local de subidas:', err);
+      return undefined;
+    });
+  }
+
+  /**
+   * Subidas registradas, de la más reciente a la más antigua
+   */
+  async list(): Promise<StoredUpload[]> {
+    const uploads = await this.transaction<StoredUpload[]>('readonly', store => store.getAll());
+    return (uploads ?? []).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Registra una sesión recién inicializada (o reanudada por el servidor)
+   *
+   * @param file - Archivo que se sube
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada
+   * @param session - Datos de la sesión y chunks ya confirmados
+   */
+  async save(file: File, relativePath: string | undefined, session: Pick<StoredUpload, 'uploadId' | 'chunkSize' | 'variableParts' | 'acknowledged'>) {
+    const fingerprint = await fileFingerprint(file);
+    const now = Date.now();
+    const record: StoredUpload = { ...fingerprint, ...session, relativePath, mimeType: file.type, createdAt: now, updatedAt: now };
+    await this.transaction('readwrite', store => { store.put(record); });
+  }
+
+  /**
+   * Anota un chunk confirmado por el servidor
+   *
+   * La lectura y la escritura van en la misma transacción, así que los chunks
+   * que terminan a la vez no se pisan.
+   *
+   * @param uploadId - Sesión de la subida
+   * @param index - Índice del chunk
+   */
+  async acknowledge(uploadId: string, index: number) {
+    await this.transaction('readwrite', store => {
+      const request = store.get(uploadId);
+      request.onsuccess = () => {
+        const record = request.result as StoredUpload | undefined;
+        if (!record || record.acknowledged.includes(index)) return;
+        store.put({ ...record, acknowledged: [...record.acknowledged, index], updatedAt: Date.now() });
+      };
+    });
+  }
+
+  /**
+   * Olvida una subida (completada, cancelada o que ya no existe en el servidor)
+   *
+   * @param uploadId - Sesión de la subida
+   */
+  async remove(uploadId: string) {
+    await this.transaction('readwrite', store => { store.delete(uploadId); });
+  }
+
+  /**
+   * Comprueba que el archivo seleccionado sea el de una subida registrada
+   *
+   * @param upload - Subida registrada
+   * @param file - Archivo elegido por el usuario
+   * @returns Motivo por el que no coincide, o null si es el mismo archivo
+   */
+  async verify(upload: StoredUpload, file: File): Promise<string | null> {
+    if (file.name !== upload.fileName) return `Se esperaba el archivo "${upload.fileName}"`;
+    if (file.size !== upload.fileSize) return 'El tamaño del archivo no coincide con el de la subida';
+    if (file.lastModified !== upload.lastModified) return 'El archivo se ha modificado desde que empezó la subida';
+    const { partialHash } = await fileFingerprint(file);
+    if (partialHash !== upload.partialHash) return 'El contenido del archivo no coincide con el de la subida';
+    return null;
+  }
+}
@@ -1,117 +1,411 @@
 
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpEvent, HttpEventType } from '@angular/common/http';
-import { BehaviorSubject, Observable, from, of } from 'rxjs';
-import { catchError, concatMap, filter, map, mergeMap, toArray, finalize } from 'rxjs/operators';
+import { HttpClient, HttpErrorResponse, HttpEvent, HttpEventType } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, combineLatest, concat, defer, forkJoin, from, merge, of, throwError, timer } from 'rxjs';
+import { catchError, concatMap, concatWith, count, exhaustMap, expand, filter, last, map, retry, share, shareReplay, switchMap, take, takeUntil, tap, throwIfEmpty, finalize } from 'rxjs/operators';
+import { ChunkScheduler, PartPlanner, PlannedPart, UploadedPart, chunkLimits, uploadedPartsOf } from './chunk-scheduler';
+import { UPLOAD_CONFIG, UploadProgress, UploadWorkerCommand, UploadWorkerEvent, fileSha256, sha256, sha256Hex } from './upload-protocol';
+import { CircuitBreaker, RetryPolicy, parseRetryAfter } from './retry-policy';
+import { TokenBucket, combinedLimit } from './bandwidth';
+import { FilePolicy } from './file-policy';
+import type { FileProcessing } from './files.service';
+import { AuthService } from './auth.service';
+import { UploadStoreService } from './upload-store.service';
 
 /**
  * Respuesta del endpoint de inicialización de subida
  */
 export interface InitResponse {
   uploadId: string;                    // ID único para esta sesión de subida
-  recommendedChunkSize: number;        // Tamaño de chunk recomendado por el servidor
+  recommendedChunkSize: number;        // Tamaño de chunk acordado por el servidor (con partes variables, solo orientativo)
+  totalChunks?: number;                // Número de chunks acordado por el servidor
   uploadedChunks?: number[];          // Chunks ya subidos previamente (para reanudar)
+  expiresAt?: string;                  // Caducidad de la sesión si no llegan más chunks (ISO)
+  variableParts?: boolean;             // El cliente elige el tamaño de cada parte dentro de los límites
+  minChunkSize?: number;               // Tamaño mínimo de parte (salvo la última)
+  maxChunkSize?: number;               // Tamaño máximo de parte
+  uploadedParts?: UploadedPart[];      // Tramo de cada parte ya subida (partes variables)
 }
 
 /**
- * Información de progreso de subida en tiempo real
+ * Estado de una sesión de subida según el servidor
  */
-export interface UploadProgress {
-  totalBytes: number;                 // Tamaño total del archivo
-  sentBytes: number;                  // Bytes ya enviados
-  percent: number;                    // Porcentaje completado (0-100)
-  currentSpeedBps?: number;          // Velocidad actual en bytes por segundo
-  etaSeconds?: number;               // Tiempo estimado restante en segundos
+export interface UploadStatus {
+  uploadId: string;
+  state: 'open' | 'assembling' | 'complete' | 'expired' | 'aborted';
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  chunkSize: number;                  // Tamaño de chunk acordado en la sesión
+  totalChunks: number;                // Número total de chunks esperados
+  receivedChunks: number[];           // Índices ya almacenados en el servidor
+  receivedBytes: number;              // Bytes ya almacenados en el servidor
+  minChunkSize?: number;              // Límites de las partes (solo sesiones de partes variables)
+  maxChunkSize?: number;
+  parts?: UploadedPart[];             // Tramo de cada parte almacenada (solo partes variables)
+  result?: AssemblyResult;            // Archivo final, si la sesión está completa
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;                  // Caducidad de la sesión si no llegan más chunks
 }
 
 /**
- * Configuración simple para la POC
+ * Archivo final creado por el servidor tras el ensamblado
  */
-const UPLOAD_CONFIG = {
-  MAX_FILE_SIZE: 10 * 1024 * 1024 * 1024, // 10GB
-  PAUSE_CHECK_INTERVAL: 300, // ms
-  BASE_RETRY_DELAY: 1000, // ms
-  LARGE_FILE_EXTRA_DELAY: 2000 // ms para archivos con >100 chunks
-} as const;
+export interface AssemblyResult {
+  fileId: string;                     // ID del archivo en el catálogo del servidor
+  filePath: string;
+  originalFileName: string;
+  sanitizedFileName: string;          // Nombre final (renombrado si hubo colisión)
+  relativePath: string;               // Ruta lógica: carpeta relativa + nombre
+  version: number;                    // Versión dentro de la misma ruta
+  sha256: string;                     // Hash real del archivo final
+}
+
+/**
+ * Estado del trabajo de ensamblado en segundo plano
+ */
+export interface AssemblyStatus {
+  uploadId: string;
+  state: 'running' | 'done' | 'failed';
+  totalChunks?: number;
+  processedChunks?: number;           // Partes ya copiadas al archivo final
+  processedBytes?: number;            // Bytes ya copiados al archivo final
+  result?: AssemblyResult;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Tipos de evento del stream `/api/uploads/events`
+ *
+ * - created: sesión abierta
+ * - chunk-received: el servidor almacenó un chunk
+ * - assembling: progreso del ensamblado del archivo final
+ * - completed: archivo final en el catálogo
+ * - failed: el ensamblado falló
+ * - expired: la sesión caducó por inactividad
+ * - processing: el archivo final pasó a procesarse o cambió de procesador
+ * - processed: procesamiento terminado (listo o en cuarentena)
+ */
+export const UPLOAD_EVENT_TYPES = ['created', 'chunk-received', 'assembling', 'completed', 'failed', 'expired', 'processing', 'processed'] as const;
+export type UploadEventType = typeof UPLOAD_EVENT_TYPES[number];
+
+/**
+ * Evento del servidor sobre una sesión del usuario (de esta pestaña o de cualquier otra)
+ */
+export interface UploadEvent {
+  id: number;
+  type: UploadEventType;
+  uploadId: string;
+  fileName: string;
+  relativeDir: string;
+  fileSize: number;
+  at: string;                         // Fecha del evento (ISO)
+  chunkIndex?: number;                // chunk-received: chunk almacenado
+  receivedChunks?: number;            // chunk-received: chunks almacenados hasta ahora
+  totalChunks?: number;
+  processedBytes?: number;            // assembling: bytes ya copiados al archivo final
+  percent?: number;                   // assembling: porcentaje ensamblado (0-100)
+  result?: AssemblyResult;            // completed: archivo final
+  error?: string;                     // failed: motivo
+  code?: string;                      // failed: código estructurado
+  fileId?: string;                    // processing / processed: archivo del catálogo
+  processing?: FileProcessing;        // processing / processed: estado del procesamiento
+}
+
+// Se define junto al worker de subida, que también lo calcula
+export type { UploadProgress };
+
+/**
+ * Protocolo con el que se envía el archivo
+ *
+ * - chunks: API propia (`/api/uploads`), chunks en paralelo
+ * - worker: API propia, con el troceado, los hashes y el envío en un Web Worker
+ * - tus: protocolo estándar tus 1.0 (`/api/tus`), PATCH secuenciales
+ */
+export type UploadTransport = 'chunks' | 'worker' | 'tus';
+
+/**
+ * Cabecera que exige el servidor en todas las peticiones tus
+ */
+const TUS_HEADERS = { 'Tus-Resumable': '1.0.0' };
+
+/**
+ * Conflictos tus que se resuelven volviendo a pedir el offset al servidor
+ */
+const TUS_RESYNC_CODES = ['OFFSET_MISMATCH', 'UPLOAD_LOCKED'];
+
+/**
+ * Mensajes para los códigos de error estructurados del servidor
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_FILE_NAME: 'El nombre del archivo no es válido',
+  INVALID_FILE_SIZE: 'El tamaño del archivo no es válido',
+  FILE_TOO_LARGE: 'El archivo supera el tamaño máximo permitido por el servidor',
+  EXTENSION_NOT_ALLOWED: 'El servidor no admite archivos con esa extensión',
+  FILE_TYPE_NOT_ALLOWED: 'El servidor no admite archivos de ese tipo',
+  FILE_TYPE_MISMATCH: 'El contenido del archivo no corresponde a su tipo',
+  FILE_PROCESSING: 'El archivo aún se está analizando en el servidor',
+  FILE_QUARANTINED: 'El archivo está en cuarentena y no se puede descargar',
+  QUOTA_EXCEEDED: 'La subida excede tu cuota de almacenamiento',
+  SESSION_NOT_FOUND: 'La sesión de subida no existe en el servidor',
+  SESSION_NOT_OPEN: 'La sesión de subida ya no admite chunks',
+  SESSION_EXPIRED: 'La sesión de subida caducó por inactividad, reinténtalo para empezar de nuevo',
+  TEMP_STORAGE_FULL: 'El servidor no tiene espacio temporal disponible, inténtalo más tarde',
+  INVALID_CHUNK_INDEX: 'El servidor rechazó el índice de un chunk',
+  CHUNK_SIZE_MISMATCH: 'El tamaño de un chunk no coincide con lo acordado con el servidor',
+  CHUNK_TOO_LARGE: 'Un chunk supera el tamaño acordado con el servidor',
+  CHUNK_HASH_MISMATCH: 'Un chunk llegó corrupto al servidor',
+  INVALID_PART_OFFSET: 'El servidor rechazó el offset de un chunk',
+  CHUNK_TOO_SMALL: 'Un chunk es menor que el mínimo que admite el servidor',
+  PART_OVERLAP: 'Un chunk se solapa con otro ya subido',
+  CHECKSUM_MISMATCH: 'Un bloque llegó corrupto al servidor',
+  OFFSET_MISMATCH: 'El servidor tiene otro punto de reanudación para la subida',
+  UPLOAD_LENGTH_EXCEEDED: 'Se enviaron más bytes de los declarados',
+  TOTAL_CHUNKS_MISMATCH: 'El número de chunks no coincide con lo acordado con el servidor',
+  MISSING_CHUNK: 'Faltan chunks en el servidor',
+  CHUNK_CORRUPTED: 'Un chunk se corrompió en el servidor, vuelve a subir el archivo',
+  FILE_HASH_MISMATCH: 'El archivo ensamblado no coincide con el original',
+  UPLOAD_RESTARTED: 'El servidor no pudo verificar el archivo ensamblado, vuelve a subirlo',
+  FILE_EXISTS: 'Ya existe un archivo con ese nombre en esa carpeta',
+  RETRIES_EXHAUSTED: 'Un bloque del archivo siguió fallando tras agotar sus reintentos',
+  RETRY_BUDGET_EXHAUSTED: 'La subida acumuló demasiados fallos y se detuvo; reinténtala más tarde',
+  CANCELLED: 'Subida cancelada',
+};
+
+/**
+ * Error de subida con el código estructurado devuelto por el servidor
+ */
+export class UploadError extends Error {
+  constructor(message: string, public code?: string, public status?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Envío de un chunk cortado por una pausa con `abortOnPause$`: se repite al
+ * reanudar sin gastar reintentos
+ */
+class PausedChunkError extends Error {}
+
+/**
+ * Construye el mensaje de error mostrado al usuario
+ * 
+ * Incluye el código estructurado del servidor cuando existe.
+ * 
+ * @param err - Error emitido por el pipeline de subida
+ * @returns Mensaje legible
+ */
+export function describeUploadError(err: unknown): string {
+  if (err instanceof UploadError && err.code) return `${err.message} (${err.code})`;
+  return (err as Error)?.message || 'Fallo subiendo';
+}
+
+/**
+ * Estado reactivo de una subida concreta
+ * 
+ * El servicio es a la vez el control por defecto (una única subida global);
+ * la cola de subidas crea un control independiente por archivo.
+ */
+export interface UploadControl {
+  progress$: BehaviorSubject<UploadProgress>;
+  isPaused$: BehaviorSubject<boolean>;
+  isUploading$: BehaviorSubject<boolean>;
+  cancel$: Subject<void>;             // Emite al cancelar: corta el pipeline y aborta peticiones
+  rateLimit$: BehaviorSubject<number | null>; // Límite de bytes/s de esta subida (null: sin límite)
+  assembly$: BehaviorSubject<number | null>; // Porcentaje ensamblado en el servidor (null: no se está ensamblando)
+  uploadId?: string;                  // Sesión en curso, para avisar al servidor al cancelar
+}
 
 @Injectable({ providedIn: 'root' })
 export class UploadService {
   private http = inject(HttpClient);
+  private auth = inject(AuthService);
+  private store = inject(UploadStoreService);
 
   // Observables reactivos para comunicar estado a los componentes
   progress$ = new BehaviorSubject<UploadProgress>({ totalBytes: 0, sentBytes: 0, percent: 0 });
   isPaused$  = new BehaviorSubject<boolean>(false);    // Estado de pausa
   isUploading$ = new BehaviorSubject<boolean>(false);  // Estado de subida activa
+  cancel$ = new Subject<void>();                       // Señal de cancelación
+  rateLimit$ = new BehaviorSubject<number | null>(null); // Límite de bytes/s de la subida global
+  assembly$ = new BehaviorSubject<number | null>(null); // Ensamblado en el servidor de la subida global
+  uploadId?: string;                                   // Sesión de la subida global en curso
+  uploaded$ = new Subject<AssemblyResult>();           // Archivos terminados por cualquier subida
+  transport$ = new BehaviorSubject<UploadTransport>('chunks'); // Protocolo de las próximas subidas
+  offline$ = new BehaviorSubject<boolean>(false);      // Sin red: las subidas esperan a que vuelva
+  globalRateLimit$ = new BehaviorSubject<number | null>(null); // Límite de bytes/s de todas las subidas juntas
+  abortOnPause$ = new BehaviorSubject<boolean>(false); // Pausar corta también los chunks en vuelo (se reenvían al reanudar)
+
+  // Eventos del servidor sobre las sesiones del usuario (SSE); se conecta mientras haya suscriptores
+  // y vuelve a conectar con cada token nuevo
+  events$: Observable<UploadEvent> = this.auth.token$.pipe(
+    switchMap(token => token ? this.eventStream(token) : EMPTY),
+    share()
+  );
+
+  // Política de tipos de archivo del servidor: se pide una vez y, si falla, se vuelve a pedir la próxima vez
+  policy$: Observable<FilePolicy> = defer(() => this.http.get<FilePolicy>('/api/uploads/policy')).pipe(
+    shareReplay({ bufferSize: 1, refCount: false })
+  );
+
+  // Cubo de tokens del límite global, compartido por todas las subidas (también las del worker)
+  private bandwidth = new TokenBucket();
+
+  // Circuito de conectividad compartido por todas las subidas del hilo principal
+  private breaker = new CircuitBreaker(open => this.offline$.next(open));
+
+  // URL de la subida tus de cada archivo (por huella), para reanudarla tras un fallo
+  private tusUploads = new Map<string, string>();
+
+  constructor() {
+    this.breaker.watchConnectivity();
+  }
 
   /**
-   * Calcula la configuración óptima de subida basada en el tamaño del archivo
+   * Crea un control independiente para subir un archivo en paralelo a otros
    * 
-   * Estrategia adaptativa:
-   * - Archivos pequeños: chunks pequeños, alta concurrencia (más velocidad)
-   * - Archivos grandes: chunks grandes, baja concurrencia (más estabilidad)
-   * 
-   * @param fileSize - Tamaño del archivo en bytes
-   * @returns Configuración con chunkSize, concurrency y retries optimizados
+   * @returns Control con sus propios progress$, isPaused$, isUploading$, cancel$, rateLimit$ y assembly$
    */
-  private getOptimalConfig(fileSize: number) {
-    const MB = 1024 * 1024;
-    const GB = 1024 * MB;
-
-    if (fileSize <= 50 * MB) {
-      // Archivos pequeños (PDFs, documentos, imágenes)
-      return {
-        chunkSize: 5 * MB,
-        concurrency: 6,
-        retries: 3
-      };
-    } else if (fileSize <= 500 * MB) {
-      // Archivos medianos (videos cortos, archivos medianos)
-      return {
-        chunkSize: 10 * MB,
-        concurrency: 4,
-        retries: 3
-      };
-    } else if (fileSize <= 2 * GB) {
-      // Archivos grandes (videos largos, archivos pesados)
-      return {
-        chunkSize: 25 * MB,
-        concurrency: 3,
-        retries: 4
-      };
-    } else if (fileSize <= 10 * GB) {
-      // Archivos muy grandes (videos 4K, archivos muy pesados)
-      return {
-        chunkSize: 50 * MB,
-        concurrency: 2,
-        retries: 5
-      };
-    } else {
-      // Archivos extremadamente grandes (>10GB)
-      return {
-        chunkSize: 100 * MB,
-        concurrency: 1,
-        retries: 5
-      };
-    }
+  createControl(): UploadControl {
+    return {
+      progress$: new BehaviorSubject<UploadProgress>({ totalBytes: 0, sentBytes: 0, percent: 0 }),
+      isPaused$: new BehaviorSubject<boolean>(false),
+      isUploading$: new BehaviorSubject<boolean>(false),
+      cancel$: new Subject<void>(),
+      rateLimit$: new BehaviorSubject<number | null>(null),
+      assembly$: new BehaviorSubject<number | null>(null),
+    };
   }
 
   /**
    * Inicializa una nueva sesión de subida en el servidor
    * 
    * Este endpoint del servidor:
-   * 1. Crea un uploadId único para la sesión
-   * 2. Verifica si hay chunks ya subidos (para reanudar)
-   * 3. Puede recomendar un tamaño de chunk específico
+   * 1. Busca una sesión abierta con la misma huella de archivo (para reanudar)
+   * 2. Si no existe, crea un uploadId único para la sesión
+   * 3. Devuelve los chunks ya almacenados y el tamaño de chunk acordado
+   * 
+   * Se piden partes variables: el tamaño de cada chunk lo decide el
+   * planificador adaptativo dentro de los límites que devuelve el servidor.
    * 
    * @param file - Archivo a subir
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada (p. ej. `rodaje/dia1/clip.mp4`)
    * @returns Observable con la respuesta de inicialización
    */
-  initUpload(file: File) {
+  initUpload(file: File, relativePath?: string) {
     return this.http.post<InitResponse>('/api/uploads/init', {
       fileName: file.name,
       fileSize: file.size,
       mimeType: file.type,
-    });
+      relativePath,
+      fingerprint: this.fingerprint(file, relativePath),
+      variableParts: true,
+    }).pipe(
+      catchError(err => throwError(() => this.toUploadError(err)))
+    );
+  }
+
+  /**
+   * Convierte un error HTTP en UploadError con mensaje legible
+   * 
+   * Usa el código estructurado del servidor (`{ error, code }`) si existe.
+   * 
+   * @param err - Error original
+   * @returns UploadError con código y estado HTTP
+   */
+  private toUploadError(err: unknown): UploadError {
+    if (err instanceof UploadError) return err;
+    if (err instanceof HttpErrorResponse) {
+      const code: string | undefined = err.error?.code;
+      const message = (code && ERROR_MESSAGES[code]) || err.error?.error || err.message;
+      return new UploadError(message, code, err.status);
+    }
+    return new UploadError(err instanceof Error ? err.message : String(err));
+  }
+
+  /**
+   * Huella del archivo usada por el servidor para localizar sesiones reanudables
+   * 
+   * @param file - Archivo a identificar
+   * @param relativePath - Ruta relativa del archivo, si viene de una carpeta
+   * @returns Cadena estable mientras el archivo no cambie
+   */
+  private fingerprint(file: File, relativePath?: string) {
+    return `${relativePath || file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  /**
+   * Consulta al servidor el estado de una sesión de subida
+   * 
+   * @param uploadId - ID de la sesión
+   * @returns Observable con los chunks recibidos, bytes y estado de la sesión
+   */
+  getStatus(uploadId: string) {
+    return this.http.get<UploadStatus>(`/api/uploads/${encodeURIComponent(uploadId)}`);
+  }
+
+  /**
+   * Reanuda una subida conocida a partir de su uploadId
+   * 
+   * Consulta el estado en el servidor, valida que corresponda al archivo
+   * y continúa la subida solo con los chunks que faltan, desde el hilo
+   * principal o desde el worker según `transport$` (la sesión es de la API
+   * de chunks, así que tus no aplica). Si la sesión se está ensamblando
+   * espera a que termine el ensamblado. Si ya no existe o no admite chunks
+   * se olvida del registro local.
+   * 
+   * @param file - Archivo original (el mismo que inició la sesión)
+   * @param uploadId - ID de la sesión a reanudar
+   * @param control - Estado reactivo donde publicar el progreso (por defecto, el global)
+   * @returns Observable que completa cuando el archivo está totalmente subido
+   */
+  resumeUpload(file: File, uploadId: string, control: UploadControl = this): Observable<void> {
+    return this.getStatus(uploadId).pipe(
+      concatMap(status => {
+        if (status.fileSize !== file.size) {
+          return throwError(() => new Error('El archivo no coincide con la sesión a reanudar'));
+        }
+        if (status.state === 'complete') {
+          this.store.remove(uploadId);
+          control.progress$.next({ totalBytes: file.size, sentBytes: file.size, percent: 100 });
+          return of(void 0);
+        }
+        if (status.state === 'assembling') {
+          // Todos los chunks ya están en el servidor: solo falta esperar al ensamblado en curso
+          control.uploadId = uploadId;
+          control.isUploading$.next(true);
+          control.progress$.next({ totalBytes: file.size, sentBytes: file.size, percent: 100 });
+          return this.waitForAssembly(`/api/uploads/${encodeURIComponent(uploadId)}/assembly`, uploadId, control).pipe(
+            tap(result => {
+              this.store.remove(uploadId);
+              this.uploaded$.next(result);
+            }),
+            finalize(() => control.isUploading$.next(false)),
+            map(() => void 0)
+          );
+        }
+        if (status.state !== 'open') {
+          this.store.remove(uploadId);
+          return throwError(() => new UploadError(`La sesión no se puede reanudar (estado: ${status.state})`, 'SESSION_NOT_OPEN'));
+        }
+        const init: InitResponse = {
+          uploadId: status.uploadId,
+          recommendedChunkSize: status.chunkSize,
+          uploadedChunks: status.receivedChunks,
+          variableParts: !!status.parts,
+          minChunkSize: status.minChunkSize,
+          maxChunkSize: status.maxChunkSize,
+          uploadedParts: status.parts,
+        };
+        return this.inWorker() ? this.uploadFileWorker(file, init, control) : this.uploadFileMultipart(file, init, control);
+      }),
+      catchError(err => {
+        if (err instanceof HttpErrorResponse && err.status === 404) this.store.remove(uploadId);
+        return throwError(() => this.toUploadError(err));
+      })
+    );
   }
 
   /**
@@ -136,91 +430,494 @@ export class UploadService {
   /**
    * Cancela completamente la subida
    * 
-   * Pausa la subida y resetea todo el estado a valores iniciales
+   * 1. Emite cancel$: el pipeline se desuscribe, lo que aborta las peticiones
+   *    HTTP en curso y limpia los temporizadores pendientes
+   * 2. Pide al servidor que descarte la sesión y sus chunks temporales
+   * 3. Resetea el estado a valores iniciales
+   * 
+   * @param control - Subida a cancelar (por defecto, la global)
    */
-  cancel() {
-    this.pause();
-    this.isUploading$.next(false);
-    this.progress$.next({ totalBytes: 0, sentBytes: 0, percent: 0 });
+  cancel(control: UploadControl = this) {
+    control.cancel$.next();
+
+    const uploadId = control.uploadId;
+    control.uploadId = undefined;
+    if (uploadId) {
+      this.store.remove(uploadId);
+      this.abortUpload(uploadId).subscribe({
+        error: err => console.error(`No se pudo descartar la sesión ${uploadId} en el servidor:`, err),
+      });
+    }
+
+    control.isPaused$.next(false);
+    control.isUploading$.next(false);
+    control.progress$.next({ totalBytes: 0, sentBytes: 0, percent: 0 });
+  }
+
+  /**
+   * Descarta una sesión en el servidor (borra sus chunks temporales)
+   * 
+   * @param uploadId - ID de la sesión
+   */
+  abortUpload(uploadId: string) {
+    return this.http.delete(`/api/uploads/${encodeURIComponent(uploadId)}`);
+  }
+
+  /**
+   * Corta una subida cuando se emite cancel$ en su control
+   * 
+   * Al desuscribirse se abortan las peticiones en curso. Como el pipeline de
+   * subida emite un único valor al terminar, si se corta antes no emite nada
+   * y se convierte en un error CANCELLED (no en un "completado").
+   * 
+   * @param source - Pipeline de subida
+   * @param control - Control cuya cancelación se observa
+   */
+  private cancellable<T>(source: Observable<T>, control: UploadControl): Observable<T> {
+    return source.pipe(
+      takeUntil(control.cancel$),
+      throwIfEmpty(() => new UploadError('Subida cancelada', 'CANCELLED'))
+    );
   }
 
   /**
    * Método principal para subir archivos usando estrategia multipart
    * 
    * Pipeline reactivo que:
-   * 1. Divide el archivo en chunks optimizados
-   * 2. Filtra chunks ya subidos (para reanudar subidas)
-   * 3. Procesa chunks en paralelo con concurrencia controlada
-   * 4. Actualiza progreso en tiempo real con velocidad y ETA
-   * 5. Ensambla el archivo final en el servidor
+   * 1. Reparte el archivo en partes, respetando las ya subidas (para reanudar subidas)
+   * 2. Envía las partes en paralelo: el planificador adaptativo decide cuántas
+   *    a la vez y de qué tamaño según la latencia y el throughput medidos
+   * 3. Actualiza progreso en tiempo real con velocidad y ETA
+   * 4. Ensambla el archivo final en el servidor
+   * 
+   * En sesiones de tamaño fijo (p. ej. reanudadas desde un cliente anterior)
+   * el tamaño de chunk lo marca el servidor y solo se adapta la concurrencia.
    * 
    * @param file - Archivo a subir
    * @param init - Respuesta de inicialización con uploadId y chunks previos
+   * @param control - Estado reactivo donde publicar el progreso (por defecto, el global)
    * @returns Observable que completa cuando el archivo está totalmente subido
    */
-  uploadFileMultipart(file: File, init: InitResponse): Observable<void> {
-    // Obtener configuración óptima basada en el tamaño del archivo
-    const config = this.getOptimalConfig(file.size);
-    const chunkSize = init.recommendedChunkSize || config.chunkSize;
-    const totalChunks = Math.ceil(file.size / chunkSize);
-    const uploadedSet = new Set(init.uploadedChunks || []);
-    const chunks: number[] = [];
-
-    // Crear lista de chunks pendientes (excluir los ya subidos)
-    for (let i = 0; i < totalChunks; i++) {
-      if (!uploadedSet.has(i)) chunks.push(i);
+  uploadFileMultipart(file: File, init: InitResponse, control: UploadControl = this): Observable<void> {
+    const limits = chunkLimits(init);
+    const uploaded = uploadedPartsOf(init, file.size);
+    let planner: PartPlanner;
+    try {
+      planner = new PartPlanner(file.size, uploaded, limits);
+    } catch (err) {
+      return throwError(() => this.toUploadError(err));
     }
+    const scheduler = new ChunkScheduler(limits);
+    const policy = new RetryPolicy(this.breaker);
+    const bucket = new TokenBucket();
+    const rateCap = this.capChunkSize(control, scheduler);
+    control.uploadId = init.uploadId;
 
     // Inicializar métricas de progreso
     const startTime = Date.now();
     const totalBytes = file.size;
-    let sentBytes = (uploadedSet.size * chunkSize);
+    let sentBytes = planner.uploadedBytes;
 
     console.log(`📁 Archivo: ${file.name}`);
     console.log(`📊 Tamaño: ${(totalBytes / (1024 * 1024)).toFixed(2)} MB`);
-    console.log(`🔧 Configuración: Chunks de ${(chunkSize / (1024 * 1024)).toFixed(2)} MB, Concurrencia: ${config.concurrency}`);
-    console.log(`⚡ Chunks pendientes: ${chunks.length}/${totalChunks} (${uploadedSet.size} ya subidos)`);
-
-    if (uploadedSet.size === totalChunks) {
-      console.log(`✅ Archivo ya completamente subido`);
-      this.progress$.next({ totalBytes, sentBytes: totalBytes, percent: 100 });
-      return of(void 0);
-    }
+    console.log(limits.fixedChunkSize
+      ? `🔧 Configuración: Chunks fijos de ${(limits.fixedChunkSize / (1024 * 1024)).toFixed(2)} MB, concurrencia adaptativa`
+      : `🔧 Configuración: Chunks adaptativos entre ${(limits.minChunkSize / (1024 * 1024)).toFixed(2)} y ${(limits.maxChunkSize / (1024 * 1024)).toFixed(2)} MB`);
+    console.log(`⚡ Partes ya subidas: ${uploaded.length} (${(sentBytes / (1024 * 1024)).toFixed(2)} MB)`);
+    if (planner.done) console.log(`✅ Archivo ya completamente subido`);
 
     // Iniciar el proceso de subida
-    this.isUploading$.next(true);
-    this.progress$.next({ totalBytes, sentBytes, percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)) });
-
-    // Pipeline reactivo principal
-    return from(chunks).pipe(
-      // Procesar chunks en paralelo con concurrencia controlada
-      mergeMap((idx) => this.uploadSingleChunk(file, init.uploadId, idx, chunkSize, totalChunks, config.retries).pipe(
-        map((bytesSent) => {
-          sentBytes += bytesSent;
-          const elapsed = (Date.now() - startTime) / 1000;
-          const speed = elapsed > 0 ? sentBytes / elapsed : undefined;
-          const remaining = totalBytes - sentBytes;
-          const eta = speed ? remaining / speed : undefined;
-          
-          // Actualizar progreso en tiempo real
-          this.progress$.next({
-            totalBytes,
-            sentBytes,
-            percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)),
-            currentSpeedBps: speed,
-            etaSeconds: eta,
-          });
-          return bytesSent;
-        })
-      ), config.concurrency),
-      toArray(), // Esperar a que todos los chunks terminen
-      concatMap(() => this.complete(init.uploadId, totalChunks, file.name, file.type)), // Ensamblar archivo final
+    control.isUploading$.next(true);
+    control.progress$.next({ totalBytes, sentBytes, percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)) });
+
+    // El hash del archivo completo se calcula en paralelo a la subida de los chunks
+    const fileHash$ = this.fileHash(file).pipe(shareReplay({ bufferSize: 1, refCount: true }));
+    const hashing = fileHash$.subscribe({ error: () => undefined });
+
+    // Pipeline reactivo principal (cancelable mediante control.cancel$)
+    return this.cancellable(this.sendParts(planner, scheduler, part => this.uploadSingleChunk(file, init.uploadId, part, control, scheduler, policy, bucket).pipe(
+      tap({ complete: () => this.store.acknowledge(init.uploadId, part.index) }) // Registro local para reanudar tras recargar
+    )).pipe(
+      map((bytesSent) => {
+        // Los envíos cortados o fallidos descuentan lo que habían sumado: el reenvío no cuenta doble
+        sentBytes += bytesSent;
+        const elapsed = (Date.now() - startTime) / 1000;
+        const speed = elapsed > 0 ? sentBytes / elapsed : undefined;
+        const remaining = totalBytes - sentBytes;
+        const eta = speed ? remaining / speed : undefined;
+
+        // Actualizar progreso en tiempo real
+        control.progress$.next({
+          totalBytes,
+          sentBytes,
+          percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)),
+          currentSpeedBps: speed,
+          etaSeconds: eta,
+        });
+        return bytesSent;
+      }),
+      count(), // Esperar a que todos los chunks terminen
+      concatMap(() => fileHash$.pipe( // Hash del archivo completo
+        concatMap(fileHash => this.complete(init.uploadId, planner.all().length, file.name, file.type, fileHash, control)) // Ensamblar archivo final
+      )),
       finalize(() => {
         // Cleanup: resetear estado cuando termine (éxito o error)
-        this.isUploading$.next(false);
-        this.progress$.next({ totalBytes, sentBytes: totalBytes, percent: 100 });
+        rateCap.unsubscribe();
+        hashing.unsubscribe();
+        control.isUploading$.next(false);
+        control.progress$.next({ totalBytes, sentBytes: totalBytes, percent: 100 });
+      }),
+      map(() => void 0)
+    ), control).pipe(
+      catchError(err => throwError(() => this.toUploadError(err)))
+    );
+  }
+
+  /**
+   * Envía las partes del archivo con la concurrencia que marque el planificador
+   * 
+   * A diferencia de `mergeMap` con concurrencia fija, cada vez que termina una
+   * parte se vuelve a consultar cuántas pueden ir en paralelo y de qué tamaño
+   * es la siguiente. Al desuscribirse se cortan todas las peticiones en curso.
+   * 
+   * @param planner - Reparto del archivo en partes
+   * @param scheduler - Planificador adaptativo (concurrencia y tamaño)
+   * @param send - Envía una parte, emite la variación de sus bytes enviados y completa al confirmarse
+   * @returns Observable con la variación de bytes enviados; completa al enviar todas las partes
+   */
+  private sendParts(planner: PartPlanner, scheduler: ChunkScheduler, send: (part: PlannedPart) => Observable<number>): Observable<number> {
+    return new Observable<number>((subscriber) => {
+      const running = new Set<Subscription>();
+
+      const pump = () => {
+        while (!subscriber.closed && running.size < scheduler.concurrency) {
+          const part = planner.next(scheduler.nextChunkSize());
+          if (!part) break;
+          const entry = new Subscription();
+          running.add(entry);
+          entry.add(send(part).subscribe({
+            next: bytes => subscriber.next(bytes),
+            error: err => subscriber.error(err),
+            complete: () => {
+              running.delete(entry);
+              pump();
+            },
+          }));
+        }
+        if (!running.size && planner.done) subscriber.complete();
+      };
+      pump();
+
+      // Teardown: al cancelar o fallar se abortan las partes en curso
+      return () => running.forEach(entry => entry.unsubscribe());
+    });
+  }
+
+  /**
+   * Sube un archivo con el protocolo seleccionado en `transport$`
+   * 
+   * @param file - Archivo a subir
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada
+   * @param control - Estado reactivo donde publicar el progreso (por defecto, el global)
+   * @returns Observable que completa cuando el archivo está totalmente subido
+   */
+  upload(file: File, relativePath?: string, control: UploadControl = this): Observable<void> {
+    if (this.transport$.value === 'tus') return this.uploadFileTus(file, relativePath, control);
+    const inWorker = this.inWorker();
+    return this.initUpload(file, relativePath).pipe(
+      // Se registra la sesión en IndexedDB para poder reanudarla tras recargar la página
+      concatMap(init => from(this.store.save(file, relativePath, {
+        uploadId: init.uploadId,
+        chunkSize: init.recommendedChunkSize,
+        variableParts: !!init.variableParts,
+        acknowledged: init.uploadedChunks ?? [],
+      })).pipe(map(() => init))),
+      concatMap(init => inWorker ? this.uploadFileWorker(file, init, control) : this.uploadFileMultipart(file, init, control))
+    );
+  }
+
+  /**
+   * Indica si los chunks de la API propia se envían desde un Web Worker
+   * 
+   * Sin soporte de workers se sube desde el hilo principal.
+   */
+  private inWorker() {
+    return this.transport$.value === 'worker' && typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Sube los chunks desde un Web Worker dedicado
+   * 
+   * El worker trocea el archivo, calcula los hashes y envía los chunks con
+   * `fetch`, con el mismo planificador adaptativo, reintentos y pausa que la
+   * subida desde el hilo principal. Aquí solo se traducen sus mensajes:
+   * progreso a `progress$`, pausa, token y ancho de banda (el worker pide
+   * permiso antes de cada envío para respetar el límite global), y al terminar se completa
+   * la subida como siempre. Al cancelar, el worker se termina y con él sus
+   * peticiones en curso.
+   * 
+   * @param file - Archivo a subir
+   * @param init - Respuesta de inicialización con uploadId y chunks previos
+   * @param control - Estado reactivo donde publicar el progreso (por defecto, el global)
+   * @returns Observable que completa cuando el archivo está totalmente subido
+   */
+  uploadFileWorker(file: File, init: InitResponse, control: UploadControl = this): Observable<void> {
+    control.uploadId = init.uploadId;
+    const totalBytes = file.size;
+    console.log(`📁 Archivo (worker): ${file.name}`);
+
+    const chunks$ = new Observable<{ totalChunks: number; fileHash: string }>((subscriber) => {
+      const worker = new Worker(new URL('./upload.worker', import.meta.url), { type: 'module' });
+      const post = (command: UploadWorkerCommand) => worker.postMessage(command);
+      const bucket = new TokenBucket();
+      const reservations = new Subscription();
+      let renewal: Subscription | undefined;
+
+      worker.onmessage = ({ data }: MessageEvent<UploadWorkerEvent>) => {
+        switch (data.type) {
+          case 'progress':
+            control.progress$.next(data.progress);
+            break;
+          case 'chunk':
+            this.store.acknowledge(init.uploadId, data.index);
+            break;
+          case 'reserve': {
+            // Los límites global y de la subida se aplican aquí, junto a los del hilo principal
+            const id = data.id;
+            reservations.add(this.throttle(data.bytes, control, bucket).subscribe(() => post({ type: 'grant', id })));
+            break;
+          }
+          case 'unauthorized': {
+            // Igual que el interceptor: si otra petición ya obtuvo un token nuevo se usa ese
+            const token = this.auth.token;
+            if (token && token !== data.token) post({ type: 'token', token });
+            else renewal ??= this.auth.requireLogin().subscribe(renewed => {
+              renewal = undefined;
+              post({ type: 'token', token: renewed });
+            });
+            break;
+          }
+          case 'done':
+            subscriber.next(data);
+            subscriber.complete();
+            break;
+          case 'error':
+            subscriber.error(new UploadError((data.code && ERROR_MESSAGES[data.code]) || data.message, data.code, data.status));
+            break;
+        }
+      };
+      worker.onerror = event => subscriber.error(new UploadError(event.message || 'Fallo en el worker de subida'));
+
+      control.isUploading$.next(true);
+      post({ type: 'start', file, session: init, token: this.auth.token, paused: control.isPaused$.value });
+      const pause = control.isPaused$.subscribe(paused => post(paused ? { type: 'pause', abort: this.abortOnPause$.value } : { type: 'resume' }));
+      const rate = this.limitOf(control).subscribe(limit => post({ type: 'rate', bytesPerSecond: limit }));
+
+      // Teardown: al cancelar o terminar se para el worker y sus peticiones
+      return () => {
+        pause.unsubscribe();
+        rate.unsubscribe();
+        reservations.unsubscribe();
+        renewal?.unsubscribe();
+        worker.terminate();
+      };
+    });
+
+    return this.cancellable(chunks$.pipe(
+      concatMap(({ totalChunks, fileHash }) => this.complete(init.uploadId, totalChunks, file.name, file.type, fileHash, control)),
+      finalize(() => {
+        control.isUploading$.next(false);
+        control.progress$.next({ totalBytes, sentBytes: totalBytes, percent: 100 });
+      }),
+      map(() => void 0)
+    ), control).pipe(
+      catchError(err => throwError(() => this.toUploadError(err)))
+    );
+  }
+
+  /**
+   * Sube un archivo con el protocolo tus 1.0 (`/api/tus`)
+   * 
+   * El servidor comparte sesiones y ensamblado con la API de chunks:
+   * 1. Reutiliza la subida tus anterior del mismo archivo (HEAD) o crea una nueva (POST)
+   * 2. Envía el archivo en orden con PATCH desde el offset del servidor, con `Upload-Checksum`
+   * 3. Ante un fallo transitorio vuelve a pedir el offset y continúa desde ahí
+   * 4. Espera al ensamblado, que el servidor lanza al recibir el último byte
+   * 
+   * @param file - Archivo a subir
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada
+   * @param control - Estado reactivo donde publicar el progreso (por defecto, el global)
+   * @returns Observable que completa cuando el archivo está totalmente subido
+   */
+  uploadFileTus(file: File, relativePath?: string, control: UploadControl = this): Observable<void> {
+    // tus es secuencial: solo se adapta el tamaño de cada PATCH
+    const scheduler = new ChunkScheduler({ minChunkSize: UPLOAD_CONFIG.TUS_MIN_PATCH_SIZE, maxChunkSize: UPLOAD_CONFIG.TUS_MAX_PATCH_SIZE }, 1);
+    const policy = new RetryPolicy(this.breaker);
+    const bucket = new TokenBucket();
+    const rateCap = this.capChunkSize(control, scheduler);
+    const key = this.fingerprint(file, relativePath);
+    const totalBytes = file.size;
+    const startTime = Date.now();
+    let startOffset = 0;
+    let attempt = 0;    // Reintentos desde el último PATCH con éxito
+    let resyncs = 0;    // Conflictos de offset desde el último PATCH con éxito
+
+    console.log(`📁 Archivo (tus): ${file.name}`);
+    console.log(`🔧 Configuración: PATCH adaptativos de hasta ${(UPLOAD_CONFIG.TUS_MAX_PATCH_SIZE / (1024 * 1024)).toFixed(2)} MB`);
+
+    return this.cancellable(this.tusLocate(file, relativePath, key).pipe(
+      concatMap(({ url, offset }) => {
+        control.uploadId = url.split('/').pop();
+        control.isUploading$.next(true);
+        startOffset = offset;
+
+        // Cada PATCH emite el nuevo offset hasta llegar al final del archivo
+        return of(offset).pipe(
+          expand(current => current >= totalBytes ? EMPTY : this.tusPatch(url, file, current, scheduler, control, bucket).pipe(
+            tap(() => {
+              policy.recordSuccess();
+              attempt = resyncs = 0;
+            }),
+            catchError(err => {
+              console.error(`Error en PATCH tus desde el byte ${current}:`, err);
+              // Un conflicto de offset no es un fallo de red: basta con volver a pedir el offset
+              const resync = err instanceof HttpErrorResponse && TUS_RESYNC_CODES.includes(err.error?.code);
+              const wait$ = resync && resyncs++ < UPLOAD_CONFIG.MAX_RETRIES
+                ? timer(UPLOAD_CONFIG.BASE_RETRY_DELAY)
+                : this.retryWait(err, policy, attempt, `PATCH tus desde el byte ${current}`, () => {
+                    attempt++;
+                    scheduler.recordFailure();
+                  });
+              // El servidor pudo guardar parte del cuerpo: se continúa desde su offset
+              return wait$.pipe(concatMap(() => this.tusOffset(url)));
+            })
+          )),
+          tap(sentBytes => {
+            const elapsed = (Date.now() - startTime) / 1000;
+            const speed = elapsed > 0 ? (sentBytes - startOffset) / elapsed : undefined;
+            control.progress$.next({
+              totalBytes,
+              sentBytes,
+              percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)),
+              currentSpeedBps: speed,
+              etaSeconds: speed ? (totalBytes - sentBytes) / speed : undefined,
+            });
+          }),
+          last(),
+          map(() => url)
+        );
+      }),
+      concatMap(url => {
+        this.tusUploads.delete(key);
+        const uploadId = url.split('/').pop()!;
+        return this.waitForAssembly(`/api/uploads/${uploadId}/assembly`, uploadId, control);
+      }),
+      tap(result => this.uploaded$.next(result)),
+      finalize(() => {
+        rateCap.unsubscribe();
+        control.isUploading$.next(false);
+        control.progress$.next({ totalBytes, sentBytes: totalBytes, percent: 100 });
       }),
       map(() => void 0)
+    ), control).pipe(
+      catchError(err => throwError(() => this.toUploadError(err)))
+    );
+  }
+
+  /**
+   * Localiza la subida tus de un archivo: la anterior si sigue abierta o una nueva
+   * 
+   * @param file - Archivo a subir
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada
+   * @param key - Huella del archivo
+   * @returns Observable con la URL de la subida y su offset actual
+   */
+  private tusLocate(file: File, relativePath: string | undefined, key: string): Observable<{ url: string; offset: number }> {
+    const create = this.tusCreate(file, relativePath).pipe(
+      tap(url => this.tusUploads.set(key, url)),
+      map(url => ({ url, offset: 0 }))
+    );
+    const known = this.tusUploads.get(key);
+    if (!known) return create;
+
+    // La subida anterior pudo caducar o cancelarse: entonces se crea otra
+    return this.tusOffset(known).pipe(
+      map(offset => ({ url: known, offset })),
+      catchError(err => err instanceof HttpErrorResponse && (err.status === 404 || err.status === 410) ? create : throwError(() => err))
+    );
+  }
+
+  /**
+   * Crea una subida tus (extensión creation)
+   * 
+   * @param file - Archivo a subir
+   * @param relativePath - Ruta relativa dentro de una carpeta soltada
+   * @returns Observable con la URL de la subida (cabecera `Location`)
+   */
+  private tusCreate(file: File, relativePath?: string) {
+    const metadata = Object.entries({ filename: file.name, filetype: file.type, relativePath })
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key} ${this.base64(value!)}`)
+      .join(',');
+
+    return this.http.post('/api/tus', null, {
+      headers: { ...TUS_HEADERS, 'Upload-Length': String(file.size), 'Upload-Metadata': metadata },
+      observe: 'response',
+    }).pipe(
+      map(res => {
+        const location = res.headers.get('Location');
+        if (!location) throw new UploadError('El servidor no devolvió la URL de la subida tus');
+        return location;
+      })
+    );
+  }
+
+  /**
+   * Consulta el offset actual de una subida tus
+   * 
+   * @param url - URL de la subida
+   * @returns Observable con los bytes ya almacenados en el servidor
+   */
+  private tusOffset(url: string) {
+    return this.http.head(url, { headers: TUS_HEADERS, observe: 'response' }).pipe(
+      map(res => Number(res.headers.get('Upload-Offset')))
+    );
+  }
+
+  /**
+   * Envía un bloque del archivo con PATCH a partir de un offset
+   * 
+   * Espera si la subida está en pausa o sin red y adjunta el SHA-256 del bloque en
+   * `Upload-Checksum` para que el servidor lo descarte si llega corrupto.
+   * El tamaño del bloque lo decide el planificador, que mide cada PATCH, y
+   * el envío espera a que lo permitan los límites de ancho de banda.
+   * 
+   * @param url - URL de la subida
+   * @param file - Archivo original
+   * @param offset - Byte desde el que se envía
+   * @param scheduler - Planificador adaptativo (tamaño del bloque)
+   * @param control - Estado reactivo de la subida (pausa y límite)
+   * @param bucket - Cubo de tokens del límite de la subida
+   * @returns Observable con el nuevo offset que devuelve el servidor
+   */
+  private tusPatch(url: string, file: File, offset: number, scheduler: ChunkScheduler, control: UploadControl, bucket: TokenBucket): Observable<number> {
+    const blob = file.slice(offset, Math.min(file.size, offset + scheduler.nextChunkSize()));
+    let started = 0;
+    return this.whenReady(control).pipe(
+      concatMap(() => from(this.sha256Base64(blob))),
+      concatMap(checksum => this.throttle(blob.size, control, bucket).pipe(map(() => checksum))),
+      tap(() => started = performance.now()),
+      concatMap(checksum => this.http.patch(url, blob, {
+        headers: {
+          ...TUS_HEADERS,
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset),
+          'Upload-Checksum': `sha256 ${checksum}`,
+        },
+        observe: 'response',
+      })),
+      map(res => Number(res.headers.get('Upload-Offset'))),
+      tap(newOffset => scheduler.recordSuccess(newOffset - offset, performance.now() - started))
     );
   }
 
@@ -228,96 +925,281 @@ export class UploadService {
    * Sube un chunk individual del archivo
    * 
    * Funcionalidades:
-   * 1. Detecta si la subida está pausada y espera hasta reanudar
+   * 1. Espera a que la subida no esté pausada (ni sin red)
    * 2. Extrae la porción correcta del archivo (slice)
-   * 3. Crea FormData con metadatos del chunk
-   * 4. Maneja errores y ejecuta reintentos automáticos
+   * 3. Calcula el SHA-256 del chunk para que el servidor verifique su integridad
+   * 4. Espera a que lo permitan los límites de ancho de banda
+   * 5. Envía el chunk como cuerpo binario (sin FormData) y mide su duración
+   * 6. Repite el envío según la política de reintentos de la subida
+   * 
+   * Durante el envío emite los bytes que el navegador va subiendo. Si el
+   * envío falla o lo corta una pausa (con `abortOnPause$`), primero emite en
+   * negativo lo sumado en ese intento, así que la suma de lo emitido es
+   * siempre lo que de verdad está enviado. Los chunks cortados por una pausa
+   * se reenvían al reanudar sin gastar reintentos.
    * 
    * @param file - Archivo original
    * @param uploadId - ID único de la sesión de subida
-   * @param chunkIndex - Índice del chunk (0, 1, 2, ...)
-   * @param chunkSize - Tamaño de cada chunk en bytes
-   * @param totalChunks - Número total de chunks
-   * @param maxRetries - Número máximo de reintentos en caso de error
-   * @returns Observable con el número de bytes enviados
-   */
-  private uploadSingleChunk(file: File, uploadId: string, chunkIndex: number, chunkSize: number, totalChunks: number, maxRetries = 3): Observable<number> {
-    // Verificar si la subida está pausada
-    if (this.isPaused$.value) {
-      return new Observable<number>((subscriber) => {
-        const check = setInterval(() => {
-          if (!this.isPaused$.value) {
-            clearInterval(check);
-            // Recursión reactiva: volver a intentar cuando se reanude
-            this.uploadSingleChunk(file, uploadId, chunkIndex, chunkSize, totalChunks, maxRetries).subscribe(subscriber);
-          }
-        }, UPLOAD_CONFIG.PAUSE_CHECK_INTERVAL);
-      });
-    }
-
+   * @param part - Índice, offset y tamaño del chunk
+   * @param control - Estado reactivo de la subida (pausa)
+   * @param scheduler - Planificador adaptativo que recibe las medidas del envío
+   * @param policy - Política de reintentos de la subida
+   * @param bucket - Cubo de tokens del límite de la subida
+   * @returns Observable con la variación de bytes enviados; completa cuando el servidor confirma el chunk
+   */
+  private uploadSingleChunk(file: File, uploadId: string, part: PlannedPart, control: UploadControl, scheduler: ChunkScheduler, policy: RetryPolicy, bucket: TokenBucket): Observable<number> {
     // Extraer la porción del archivo para este chunk
-    const start = chunkIndex * chunkSize;
-    const end = Math.min(file.size, start + chunkSize);
-    const blob = file.slice(start, end);
-
-    // Preparar FormData con el chunk y metadatos
-    const form = new FormData();
-    form.append('chunk', new File([blob], `${file.name}.part.${chunkIndex}`));
-    form.append('chunkIndex', String(chunkIndex));
-    form.append('totalChunks', String(totalChunks));
-    form.append('fileName', file.name);
-    form.append('fileSize', String(file.size));
-
-    // Enviar chunk al servidor con manejo de errores
-    return this.http.post(`/api/uploads/${encodeURIComponent(uploadId)}/chunk`, form).pipe(
-      map(() => end - start), // Retornar bytes enviados
-      catchError(err => {
-        console.error(`Error subiendo chunk ${chunkIndex + 1}/${totalChunks}:`, err);
-        return this.retryChunkUpload(uploadId, form, end - start, maxRetries, chunkIndex + 1, totalChunks);
+    const blob = file.slice(part.offset, part.offset + part.size);
+    const label = `chunk ${part.index + 1}`;
+
+    // En pausa no se calcula el hash: se espera a reanudar
+    return this.whenReady(control, scheduler).pipe(
+      concatMap(() => from(sha256Hex(blob))),
+      concatMap(chunkHash => {
+        let started = 0;
+        let attempt = 0;
+
+        // defer: cada intento espera a que la subida siga activa, pasa por el límite, mide y envía el chunk
+        return defer(() => {
+          let counted = 0; // Bytes de este intento ya emitidos
+          let confirmed = false;
+          return this.whenReady(control, scheduler).pipe(
+            // La pausa solo corta el envío una vez pasada la espera (si no, cortaría el reenvío)
+            concatMap(() => this.throttle(part.size, control, bucket).pipe(
+              concatMap(() => {
+                started = performance.now();
+                return this.sendChunk(uploadId, part, blob, chunkHash);
+              }),
+              takeUntil(this.abortingPause(control)) // Cancela la petición en vuelo
+            )),
+            concatMap(event => {
+              if (event.type === HttpEventType.Response) confirmed = true;
+              const loaded = event.type === HttpEventType.UploadProgress ? event.loaded : confirmed ? part.size : counted;
+              const delta = loaded - counted;
+              counted = loaded;
+              return delta ? of(delta) : EMPTY;
+            }),
+            concatWith(defer(() => confirmed ? EMPTY : throwError(() => new PausedChunkError(`${label} cortado por la pausa`)))),
+            catchError(err => {
+              // Se descuenta lo enviado en el intento fallido antes de repetirlo
+              const rollback = -counted;
+              counted = 0;
+              return concat(rollback ? of(rollback) : EMPTY, throwError(() => err));
+            })
+          );
+        }).pipe(
+          retry({
+            delay: err => {
+              if (err instanceof PausedChunkError) {
+                console.log(`⏸️ ${err.message}: se reenviará al reanudar`);
+                return of(0);
+              }
+              console.error(`Error subiendo ${label}:`, err);
+              return this.retryWait(err, policy, attempt, label, () => {
+                attempt++;
+                scheduler.recordFailure();
+              });
+            },
+          }),
+          tap({
+            complete: () => {
+              policy.recordSuccess();
+              scheduler.recordSuccess(part.size, performance.now() - started);
+            },
+          })
+        );
       })
     );
   }
 
   /**
-   * Sistema de reintentos inteligente para chunks fallidos
+   * Indica si una subida debe esperar: pausada por el usuario o sin red
+   */
+  private isHeld(control: UploadControl) {
+    return control.isPaused$.value || this.breaker.isOpen;
+  }
+
+  /**
+   * Espera a que la subida no esté pausada ni sin red
+   * 
+   * Reacciona a `isPaused$` y `offline$` en vez de consultar su valor
+   * periódicamente; al desuscribirse no queda nada pendiente.
    * 
-   * Estrategia de reintentos:
-   * 1. Delay progresivo: más tiempo entre reintentos
-   * 2. Delay adicional para archivos grandes (más estabilidad)
-   * 3. Logging detallado para debugging
-   * 4. Recursión reactiva hasta agotar reintentos
+   * @param control - Control de la subida (pausa)
+   * @param scheduler - Si se indica, el tiempo en espera no cuenta para sus medidas
+   * @returns Observable que emite una vez cuando se puede enviar
+   */
+  private whenReady(control: UploadControl, scheduler?: ChunkScheduler): Observable<void> {
+    return defer(() => {
+      if (!this.isHeld(control)) return of(void 0);
+      return combineLatest([control.isPaused$, this.offline$]).pipe(
+        filter(([paused, offline]) => !paused && !offline),
+        take(1),
+        tap(() => scheduler?.restartRound()),
+        map(() => void 0)
+      );
+    });
+  }
+
+  /**
+   * Emite cuando se pausa la subida y la pausa debe cortar los chunks en vuelo
+   * 
+   * @param control - Control de la subida (pausa)
+   */
+  private abortingPause(control: UploadControl): Observable<boolean> {
+    return control.isPaused$.pipe(filter(paused => paused && this.abortOnPause$.value));
+  }
+
+  /**
+   * Límite efectivo de una subida: el menor entre el global y el suyo
+   * 
+   * @param control - Control de la subida
+   * @returns Observable con el límite en bytes/s (null: sin límite) cada vez que cambia
+   */
+  private limitOf(control: UploadControl): Observable<number | null> {
+    return combineLatest([this.globalRateLimit$, control.rateLimit$]).pipe(
+      map(([global, own]) => combinedLimit(global, own))
+    );
+  }
+
+  /**
+   * Mantiene el tamaño de chunk del planificador acorde al límite efectivo
+   * 
+   * @returns Suscripción que hay que cerrar al terminar la subida
+   */
+  private capChunkSize(control: UploadControl, scheduler: ChunkScheduler): Subscription {
+    return this.limitOf(control).subscribe(limit => scheduler.setRateCap(limit));
+  }
+
+  /**
+   * Espera a que los límites de ancho de banda permitan enviar `bytes`
+   * 
+   * Se reservan los bytes en el cubo global y en el de la subida, y se espera
+   * al más lento. Si un límite cambia durante la espera, se recalcula: al
+   * subir el límite o quitarlo, los envíos retenidos salen antes.
+   * 
+   * @param bytes - Bytes que se van a enviar
+   * @param control - Control de la subida (su límite)
+   * @param bucket - Cubo de tokens del límite de la subida
+   * @returns Observable que emite una vez cuando se puede enviar
+   */
+  private throttle(bytes: number, control: UploadControl, bucket: TokenBucket): Observable<void> {
+    const wait = (tokens: TokenBucket, limit$: BehaviorSubject<number | null>) => {
+      tokens.setRate(limit$.value);
+      const ticket = tokens.reserve(bytes);
+      return limit$.pipe(
+        switchMap(limit => {
+          tokens.setRate(limit);
+          const ms = tokens.waitMs(ticket);
+          return ms > 0 ? timer(ms) : of(0);
+        }),
+        take(1)
+      );
+    };
+    return forkJoin([wait(this.bandwidth, this.globalRateLimit$), wait(bucket, control.rateLimit$)]).pipe(map(() => void 0));
+  }
+
+  /**
+   * Envía un chunk como cuerpo binario con PUT
+   * 
+   * El servidor lo escribe en disco en streaming y verifica el hash recibido
+   * en la cabecera `X-Chunk-Sha256`. El offset en `X-Chunk-Offset` lo
+   * registra en sesiones de partes variables.
    * 
    * @param uploadId - ID de la sesión de subida
-   * @param form - FormData del chunk a reintentar
-   * @param chunkSize - Tamaño del chunk en bytes
-   * @param retriesLeft - Reintentos restantes
-   * @param chunkNum - Número del chunk (para logging)
-   * @param totalChunks - Total de chunks (para calcular delay)
-   * @returns Observable con bytes enviados o error si se agotan reintentos
-   */
-  private retryChunkUpload(uploadId: string, form: FormData, chunkSize: number, retriesLeft: number, chunkNum: number, totalChunks: number): Observable<number> {
-    if (retriesLeft <= 0) {
-      console.error(`Fallo definitivo en chunk ${chunkNum}/${totalChunks} después de todos los reintentos`);
-      throw new Error(`Failed to upload chunk ${chunkNum} after all retries`);
+   * @param part - Índice y offset del chunk
+   * @param blob - Contenido del chunk
+   * @param chunkHash - SHA-256 hexadecimal del contenido
+   * @returns Observable con los eventos de la petición (progreso de subida y respuesta)
+   */
+  private sendChunk(uploadId: string, part: PlannedPart, blob: Blob, chunkHash: string) {
+    return this.http.put(`/api/uploads/${encodeURIComponent(uploadId)}/chunks/${part.index}`, blob, {
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-Sha256': chunkHash, 'X-Chunk-Offset': String(part.offset) },
+      observe: 'events',
+      reportProgress: true,
+    });
+  }
+
+  /**
+   * Aplica la política de reintentos a una petición fallida
+   * 
+   * Los fallos transitorios se repiten con backoff exponencial y jitter (o la
+   * espera de `Retry-After`) hasta agotar los reintentos de la operación o el
+   * presupuesto de la subida. Sin red se espera a que vuelva sin gastar
+   * reintentos. Los fallos definitivos y de autenticación (de los que ya se
+   * ocupa el interceptor) se propagan.
+   * 
+   * @param err - Error de la petición
+   * @param policy - Política de reintentos de la subida
+   * @param attempt - Reintentos ya hechos de esta operación
+   * @param label - Descripción de la operación para los logs
+   * @param onRetry - Se llama cuando el reintento cuenta (no al esperar la red)
+   * @returns Observable que emite cuando toca repetir la petición, o el error final
+   */
+  private retryWait(err: unknown, policy: RetryPolicy, attempt: number, label: string, onRetry: () => void): Observable<unknown> {
+    if (!(err instanceof HttpErrorResponse)) return throwError(() => err);
+    const decision = policy.decide({
+      status: err.status,
+      code: err.error?.code,
+      retryAfterMs: parseRetryAfter(err.headers?.get('Retry-After')),
+    }, attempt);
+
+    switch (decision.action) {
+      case 'wait-network':
+        console.log(`Esperando a que vuelva la red para reintentar ${label}`);
+        return new Observable<void>((subscriber) => this.breaker.onClose(() => {
+          subscriber.next();
+          subscriber.complete();
+        }));
+      case 'retry':
+        onRetry();
+        console.log(`Reintentando ${label} en ${(decision.delayMs / 1000).toFixed(1)} s (${policy.remaining} reintentos en el presupuesto de la subida)`);
+        return timer(decision.delayMs);
+      case 'fail':
+        if (!decision.code) return throwError(() => err);
+        console.error(`Fallo definitivo en ${label}: ${decision.code}`);
+        return throwError(() => new UploadError(ERROR_MESSAGES[decision.code!], decision.code, err.status));
     }
+  }
 
-    console.log(`Reintentando chunk ${chunkNum}/${totalChunks} (${retriesLeft} intentos restantes)`);
+  /**
+   * Calcula el SHA-256 en base64, el formato de `Upload-Checksum` en tus
+   * 
+   * @param data - Blob a resumir
+   * @returns Promesa con el hash en base64
+   */
+  private async sha256Base64(data: Blob): Promise<string> {
+    return btoa(String.fromCharCode(...await sha256(data)));
+  }
 
-    // Delay progresivo: más delay entre reintentos + extra para archivos grandes
-    const delay = (5 - retriesLeft) * UPLOAD_CONFIG.BASE_RETRY_DELAY + 
-                  (totalChunks > 100 ? UPLOAD_CONFIG.LARGE_FILE_EXTRA_DELAY : 0);
+  /**
+   * Codifica texto UTF-8 en base64 (valores de `Upload-Metadata`)
+   */
+  private base64(text: string) {
+    return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+  }
 
-    return new Observable<number>((subscriber) => {
-      setTimeout(() => {
-        this.http.post(`/api/uploads/${encodeURIComponent(uploadId)}/chunk`, form).pipe(
-          map(() => chunkSize),
-          catchError(err => {
-            console.error(`Error en reintento para chunk ${chunkNum}:`, err);
-            // Recursión reactiva: intentar de nuevo con menos reintentos
-            return this.retryChunkUpload(uploadId, form, chunkSize, retriesLeft - 1, chunkNum, totalChunks);
-          })
-        ).subscribe(subscriber);
-      }, delay);
+  /**
+   * Calcula el SHA-256 del archivo completo
+   * 
+   * Se lee el archivo entero por trozos, también las partes que ya estaban
+   * en el servidor al reanudar: el servidor compara este hash con el del
+   * archivo que ensambla. Al cancelar la suscripción se deja de leer.
+   * 
+   * @param file - Archivo original
+   * @returns Observable con el hash hexadecimal del archivo
+   */
+  private fileHash(file: File): Observable<string> {
+    return new Observable<string>(subscriber => {
+      const controller = new AbortController();
+      fileSha256(file, controller.signal).then(
+        hash => {
+          subscriber.next(hash);
+          subscriber.complete();
+        },
+        error => subscriber.error(error)
+      );
+      return () => controller.abort();
     });
   }
 
@@ -326,18 +1208,91 @@ export class UploadService {
    * 
    * Cuando todos los chunks han sido subidos exitosamente:
    * 1. Notifica al servidor que puede ensamblar las partes
-   * 2. El servidor verifica integridad y crea el archivo final
-   * 3. Limpia los chunks temporales del servidor
+   * 2. El servidor lanza el ensamblado en segundo plano (202) y devuelve la URL de estado
+   * 3. Se consulta esa URL hasta que el trabajo termina (éxito o error)
    * 
    * @param uploadId - ID único de la sesión de subida
    * @param totalChunks - Número total de chunks para validación
    * @param fileName - Nombre del archivo final
    * @param mimeType - Tipo MIME del archivo
-   * @returns Observable que completa cuando el archivo está ensamblado
+   * @param fileHash - SHA-256 del archivo completo
+   * @param control - Estado reactivo donde publicar el progreso del ensamblado
+   * @returns Observable con el archivo final cuando el ensamblado termina
    */
-  private complete(uploadId: string, totalChunks: number, fileName: string, mimeType: string) {
-    return this.http.post(`/api/uploads/${encodeURIComponent(uploadId)}/complete`, {
-      totalChunks, fileName, mimeType
+  private complete(uploadId: string, totalChunks: number, fileName: string, mimeType: string, fileHash: string, control: UploadControl): Observable<AssemblyResult> {
+    return this.http.post<{ statusUrl?: string } & Partial<AssemblyResult>>(`/api/uploads/${encodeURIComponent(uploadId)}/complete`, {
+      totalChunks, fileName, mimeType, fileHash
+    }).pipe(
+      // Sin statusUrl la sesión ya estaba completa y la respuesta trae el resultado
+      concatMap(res => res.statusUrl ? this.waitForAssembly(res.statusUrl, uploadId, control) : of(res as AssemblyResult)),
+      tap(result => {
+        this.store.remove(uploadId);
+        this.uploaded$.next(result);
+      })
+    );
+  }
+
+  /**
+   * Espera a que termine el trabajo de ensamblado
+   * 
+   * El progreso y el final llegan por el stream de eventos; la consulta
+   * periódica del estado sigue como respaldo por si el stream no está
+   * disponible o se perdió algún evento.
+   * 
+   * @param statusUrl - URL del recurso de estado devuelta por /complete
+   * @param uploadId - ID de la sesión que se ensambla
+   * @param control - Estado reactivo donde publicar el porcentaje ensamblado
+   * @returns Observable con el resultado, o error si el ensamblado falla
+   */
+  private waitForAssembly(statusUrl: string, uploadId: string, control: UploadControl): Observable<AssemblyResult> {
+    const events$ = this.events$.pipe(filter(event => event.uploadId === uploadId));
+    const finished$ = events$.pipe(
+      filter(event => event.type === 'completed' || event.type === 'failed'),
+      map((event): AssemblyStatus => ({ uploadId, state: event.type === 'completed' ? 'done' : 'failed', result: event.result, error: event.error, code: event.code }))
+    );
+
+    return defer(() => {
+      control.assembly$.next(0);
+      const progress = events$.pipe(filter(event => event.type === 'assembling'))
+        .subscribe(event => control.assembly$.next(event.percent ?? 0));
+
+      return merge(timer(0, UPLOAD_CONFIG.ASSEMBLY_POLL_INTERVAL).pipe(exhaustMap(() => this.http.get<AssemblyStatus>(statusUrl))), finished$).pipe(
+        filter(job => job.state !== 'running'),
+        take(1),
+        concatMap(job => job.state === 'done' && job.result
+          ? of(job.result)
+          : throwError(() => new UploadError((job.code && ERROR_MESSAGES[job.code]) || job.error || 'Fallo ensamblando el archivo', job.code))),
+        finalize(() => {
+          progress.unsubscribe();
+          control.assembly$.next(null);
+        })
+      );
     });
   }
+
+  /**
+   * Abre el stream de eventos del servidor con EventSource
+   * 
+   * EventSource no admite cabeceras, así que el token viaja como
+   * `access_token` en la URL. Tras un corte de red el navegador reconecta
+   * solo (y recupera los eventos perdidos con `Last-Event-ID`); si el
+   * servidor cierra el stream, p. ej. por un token rechazado, se vuelve a
+   * abrir pasado un rato.
+   * 
+   * @param token - Token de acceso
+   * @returns Observable con los eventos; al desuscribirse se cierra la conexión
+   */
+  private eventStream(token: string): Observable<UploadEvent> {
+    return new Observable<UploadEvent>((subscriber) => {
+      const source = new EventSource(`/api/uploads/events?access_token=${encodeURIComponent(token)}`);
+      const onEvent = (message: MessageEvent<string>) => subscriber.next(JSON.parse(message.data));
+      UPLOAD_EVENT_TYPES.forEach(type => source.addEventListener(type, onEvent));
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) subscriber.error(new Error('El servidor cerró el stream de eventos'));
+      };
+      return () => source.close();
+    }).pipe(
+      retry({ delay: () => timer(UPLOAD_CONFIG.EVENTS_RETRY_DELAY) })
+    );
+  }
 }
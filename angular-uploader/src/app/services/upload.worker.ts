@@ -0,0 +1,295 @@
+/// <reference lib="webworker" />
+
+import { ChunkScheduler, PartContract, PartPlanner, PlannedPart, chunkLimits, uploadedPartsOf } from './chunk-scheduler';
+import { UploadWorkerCommand, UploadWorkerEvent, fileSha256, sha256Hex } from './upload-protocol';
+import { CircuitBreaker, RetryPolicy, parseRetryAfter } from './retry-policy';
+
+/**
+ * Worker de subida: trocea, resume y envía los chunks de un archivo fuera del hilo principal
+ *
+ * UploadService le pasa el archivo y la sesión ya inicializada; el worker
+ * devuelve mensajes de progreso y, al terminar, el número de partes y el
+ * hash del archivo para que el servicio complete la subida. Cada subida usa
+ * su propio worker, que el servicio termina al cancelarla.
+ */
+
+/**
+ * Error de un envío con el estado HTTP (0 si no hubo respuesta), el código
+ * del servidor y la espera pedida en `Retry-After`
+ */
+class ChunkRequestError extends Error {
+  constructor(message: string, public status: number, public code?: string, public retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Envío cortado por una pausa que aborta los chunks en vuelo: se repite al
+ * reanudar sin gastar reintentos
+ */
+class PausedChunkError extends Error {}
+
+// Circuito de conectividad del worker: los eventos online/offline también llegan aquí
+const breaker = new CircuitBreaker();
+breaker.watchConnectivity();
+
+let token: string | null = null;
+let paused = false;
+let resumed: Promise<void> | undefined;          // Se resuelve al reanudar
+let release: (() => void) | undefined;
+let renewed: Promise<void> | undefined;          // Se resuelve al llegar un token nuevo
+let acceptToken: ((token: string) => void) | undefined;
+let rateLimit: number | null = null;             // Límite de ancho de banda vigente
+let activeScheduler: ChunkScheduler | undefined; // Planificador de la subida en curso
+let nextGrant = 0;
+const grants = new Map<number, () => void>();    // Reservas de ancho de banda pendientes
+const inFlight = new Set<AbortController>();     // Peticiones de chunks en curso
+
+function post(event: UploadWorkerEvent) {
+  postMessage(event);
+}
+
+addEventListener('message', ({ data }: MessageEvent<UploadWorkerCommand>) => {
+  switch (data.type) {
+    case 'start':
+      token = data.token;
+      paused = data.paused;
+      uploadChunks(data.file, data.session).then(
+        ({ totalChunks, fileHash }) => post({ type: 'done', totalChunks, fileHash }),
+        error => post({
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof ChunkRequestError ? error.code : undefined,
+          status: error instanceof ChunkRequestError ? error.status : undefined,
+        })
+      );
+      break;
+    case 'pause':
+      paused = true;
+      if (data.abort) inFlight.forEach(controller => controller.abort());
+      break;
+    case 'resume':
+      paused = false;
+      release?.();
+      resumed = release = undefined;
+      break;
+    case 'token':
+      acceptToken?.(data.token);
+      break;
+    case 'rate':
+      rateLimit = data.bytesPerSecond;
+      activeScheduler?.setRateCap(rateLimit);
+      break;
+    case 'grant':
+      grants.get(data.id)?.();
+      grants.delete(data.id);
+      break;
+  }
+});
+
+/**
+ * Espera mientras la subida esté en pausa
+ */
+function untilResumed(): Promise<void> {
+  if (!paused) return Promise.resolve();
+  resumed ??= new Promise(resolve => release = resolve);
+  return resumed;
+}
+
+/**
+ * Espera mientras la subida esté en pausa o sin red
+ */
+async function untilReady() {
+  while (paused || breaker.isOpen) {
+    await untilResumed();
+    await new Promise<void>(resolve => breaker.onClose(resolve));
+  }
+}
+
+/**
+ * Pide ancho de banda al hilo principal, que aplica los límites global y de la subida
+ *
+ * @param bytes - Bytes que se van a enviar
+ */
+function reserveBandwidth(bytes: number): Promise<void> {
+  const id = ++nextGrant;
+  return new Promise(resolve => {
+    grants.set(id, resolve);
+    post({ type: 'reserve', id, bytes });
+  });
+}
+
+/**
+ * Pide un token nuevo al hilo principal y espera a recibirlo
+ *
+ * Las peticiones que fallen con el mismo token comparten la espera.
+ *
+ * @param rejected - Token que el servidor rechazó
+ */
+function renewToken(rejected: string | null): Promise<void> {
+  if (token !== rejected) return Promise.resolve();
+  renewed ??= new Promise(resolve => {
+    acceptToken = newToken => {
+      token = newToken;
+      renewed = acceptToken = undefined;
+      resolve();
+    };
+    post({ type: 'unauthorized', token: rejected });
+  });
+  return renewed;
+}
+
+/**
+ * Sube todas las partes pendientes con la concurrencia que marque el planificador
+ *
+ * @param file - Archivo a subir
+ * @param session - Sesión inicializada por el servicio
+ * @returns Número de partes y SHA-256 del archivo
+ */
+async function uploadChunks(file: File, session: PartContract & { uploadId: string }) {
+  const limits = chunkLimits(session);
+  const planner = new PartPlanner(file.size, uploadedPartsOf(session, file.size), limits);
+  const scheduler = activeScheduler = new ChunkScheduler(limits);
+  scheduler.setRateCap(rateLimit);
+  const policy = new RetryPolicy(breaker);
+  // El hash del archivo completo se calcula en paralelo a la subida de los chunks
+  const hashing = fileSha256(file);
+  hashing.catch(() => undefined);
+
+  // Métricas de progreso, calculadas aquí para no cargar el hilo principal
+  const startTime = Date.now();
+  const totalBytes = file.size;
+  let sentBytes = planner.uploadedBytes;
+  const report = () => {
+    const elapsed = (Date.now() - startTime) / 1000;
+    const speed = elapsed > 0 ? sentBytes / elapsed : undefined;
+    post({
+      type: 'progress',
+      progress: {
+        totalBytes,
+        sentBytes,
+        percent: Math.min(99, Math.floor((sentBytes / totalBytes) * 100)),
+        currentSpeedBps: speed,
+        etaSeconds: speed ? (totalBytes - sentBytes) / speed : undefined,
+      },
+    });
+  };
+  report();
+
+  // Cada vez que termina una parte se consulta cuántas pueden ir en paralelo
+  const running = new Set<Promise<void>>();
+  let failure: { error: unknown } | undefined;
+  for (;;) {
+    while (!failure && running.size < scheduler.concurrency) {
+      const part = planner.next(scheduler.nextChunkSize());
+      if (!part) break;
+      const task: Promise<void> = sendPart(file, session.uploadId, part, scheduler, policy).then(
+        bytes => {
+          post({ type: 'chunk', index: part.index });
+          sentBytes += bytes;
+          report();
+        },
+        error => { failure ??= { error }; }
+      ).finally(() => running.delete(task));
+      running.add(task);
+    }
+    if (failure) throw failure.error;
+    if (!running.size) break;
+    await Promise.race(running);
+  }
+
+  return { totalChunks: planner.all().length, fileHash: await hashing };
+}
+
+/**
+ * Sube un chunk: espera si hay pausa o no hay red, lo resume y lo envía con la política de reintentos
+ *
+ * @returns Bytes enviados
+ */
+async function sendPart(file: File, uploadId: string, part: PlannedPart, scheduler: ChunkScheduler, policy: RetryPolicy): Promise<number> {
+  await untilReady();
+
+  const blob = file.slice(part.offset, part.offset + part.size);
+  const chunkHash = await sha256Hex(blob);
+  const label = `chunk ${part.index + 1}`;
+
+  for (let attempt = 0; ;) {
+    // Cada intento envía el chunk entero: todos pasan por el límite de ancho de banda
+    await reserveBandwidth(part.size);
+    const started = performance.now();
+    try {
+      await putChunk(uploadId, part, blob, chunkHash);
+      policy.recordSuccess();
+      scheduler.recordSuccess(part.size, performance.now() - started);
+      return part.size;
+    } catch (error) {
+      if (error instanceof PausedChunkError) {
+        // Aún no se contó en el progreso: al reanudar se reenvía entero
+        console.log(`⏸️ ${label} cortado por la pausa: se reenviará al reanudar`);
+        await untilReady();
+        continue;
+      }
+      console.error(`Error subiendo ${label}:`, error);
+      if (!(error instanceof ChunkRequestError)) throw error;
+      const decision = policy.decide(error, attempt);
+      if (decision.action === 'fail') {
+        if (!decision.code) throw error;
+        console.error(`Fallo definitivo en ${label}: ${decision.code}`);
+        throw new ChunkRequestError(`Fallo definitivo en ${label}`, error.status, decision.code);
+      }
+      if (decision.action === 'retry') {
+        attempt++;
+        scheduler.recordFailure();
+        console.log(`Reintentando ${label} en ${(decision.delayMs / 1000).toFixed(1)} s (${policy.remaining} reintentos en el presupuesto de la subida)`);
+        await new Promise(resolve => setTimeout(resolve, decision.delayMs));
+      }
+      // Sin red (o en pausa) se espera sin gastar reintentos
+      await untilReady();
+    }
+  }
+}
+
+/**
+ * Envía un chunk como cuerpo binario con PUT (misma petición que UploadService)
+ *
+ * Ante un 401 espera un token nuevo y repite la petición, como el
+ * interceptor de autenticación en el hilo principal. Una pausa con `abort`
+ * corta la petición.
+ */
+async function putChunk(uploadId: string, part: PlannedPart, blob: Blob, chunkHash: string) {
+  for (;;) {
+    const used = token;
+    const controller = new AbortController();
+    inFlight.add(controller);
+    let res: Response;
+    try {
+      res = await fetch(`/api/uploads/${encodeURIComponent(uploadId)}/chunks/${part.index}`, {
+        method: 'PUT',
+        body: blob,
+        signal: controller.signal,
+        headers: {
+          ...(used ? { Authorization: `Bearer ${used}` } : {}),
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-Sha256': chunkHash,
+          'X-Chunk-Offset': String(part.offset),
+        },
+      });
+    } catch (error) {
+      if (controller.signal.aborted) throw new PausedChunkError('Chunk cortado por la pausa');
+      // Fallo de red: se trata como una respuesta con estado 0
+      throw new ChunkRequestError(error instanceof Error ? error.message : String(error), 0);
+    } finally {
+      inFlight.delete(controller);
+    }
+
+    if (res.status === 401) {
+      await renewToken(used);
+      continue;
+    }
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new ChunkRequestError(body.error || res.statusText, res.status, body.code, parseRetryAfter(res.headers.get('Retry-After')));
+    }
+    return;
+  }
+}
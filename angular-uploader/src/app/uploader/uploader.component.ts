@@ -1,140 +1,268 @@
 
 import { Component, signal, inject, OnDestroy } from '@angular/core';
-import { DecimalPipe } from '@angular/common';
-// RXJS ASYNC: Operadores para programación reactiva asíncrona
-import { concatMap } from 'rxjs/operators';  // Secuencia async manteniendo orden
-import { UploadService } from '../services/upload.service';
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { firstValueFrom } from 'rxjs';
+import { QueueItem, QueueItemState, UploadQueueService } from '../services/upload-queue.service';
+import { UploadService, UploadTransport } from '../services/upload.service';
+import { StoredUpload, UploadStoreService } from '../services/upload-store.service';
+import { UploadSchedule, validateSchedule } from '../services/bandwidth';
+import { FilePolicy, checkFilePolicy } from '../services/file-policy';
+
+/**
+ * Etiquetas visibles para cada estado de la cola
+ */
+const STATE_LABELS: Record<QueueItemState, string> = {
+  queued: 'En cola',
+  uploading: 'Subiendo',
+  paused: 'Pausado',
+  done: '¡Listo!',
+  error: 'Error',
+  cancelled: 'Cancelado',
+};
 
 @Component({
   selector: 'app-uploader',
   standalone: true,
-  imports: [DecimalPipe],
+  imports: [DatePipe, DecimalPipe],
   templateUrl: './uploader.component.html',
   styleUrl: './uploader.component.css'
 })
 export class UploaderComponent implements OnDestroy {
+  private queue = inject(UploadQueueService);
   private uploadSvc = inject(UploadService);
-  private file: File | null = null;
+  private store = inject(UploadStoreService);
 
   // SIGNALS REACTIVOS: Estado asíncrono que actualiza UI automáticamente
   // Cada signal es un observable que triggea re-render cuando cambia
-  fileName = signal<string>('');           // Nombre del archivo actual
-  percent = signal<number>(0);             // Progreso de subida (0-100)
-  totalBytes = signal<number>(0);          // Tamaño total del archivo
-  sentBytes = signal<number>(0);           // Bytes ya enviados
-  speedBps = signal<number | undefined>(undefined);    // Velocidad actual (bytes/sec)
-  etaSeconds = signal<number | undefined>(undefined);  // Tiempo estimado restante
-  uploading = signal<boolean>(false);      // Estado: subiendo
-  paused = signal<boolean>(false);         // Estado: pausado
-  done = signal<boolean>(false);           // Estado: completado
-  error = signal<string | null>(null);     // Mensaje de error
+  items = signal<QueueItem[]>([]);         // Archivos en la cola con su progreso
+  running = signal<boolean>(false);        // Estado: la cola está procesando
+  error = signal<string | null>(null);     // Mensaje de archivos rechazados
   isDragOver = signal<boolean>(false);     // Estado: arrastrando archivo
+  transport = signal<UploadTransport>('chunks'); // Protocolo de subida (API propia o tus)
+  resumable = signal<StoredUpload[]>([]);  // Subidas interrumpidas en una visita anterior
+  offline = signal<boolean>(false);        // Sin red: las subidas esperan a que vuelva
+  globalRateLimit = signal<number | null>(null); // Límite global en bytes/s (null: sin límite)
+  schedule = signal<UploadSchedule | null>(null); // Franja horaria de subida (null: siempre)
+  inSchedule = signal<boolean>(true);      // Ahora se puede subir según el horario
+  abortOnPause = signal<boolean>(false);   // Pausar corta también los chunks en vuelo
+
+  private resuming?: StoredUpload;         // Subida para la que se está eligiendo el archivo
 
   constructor() {
     // ASINCRONÍA REACTIVA: Suscripciones a streams de datos en tiempo real
-    // Los observables emiten valores automáticamente cuando cambian los datos
-    
-    // ASYNC: Stream de progreso - actualizaciones no bloqueantes cada ~100ms
-    this.uploadSvc.progress$.subscribe(p => {
-      // SIGNALS: Actualizaciones reactivas que triggean re-render automático
-      this.totalBytes.set(p.totalBytes);
-      this.sentBytes.set(p.sentBytes);
-      this.percent.set(p.percent);
-      this.speedBps.set(p.currentSpeedBps);
-      this.etaSeconds.set(p.etaSeconds);
-    });
-    
-    // ASYNC: Streams de estado - notificaciones automáticas de cambios
-    this.uploadSvc.isUploading$.subscribe(v => this.uploading.set(v));
-    this.uploadSvc.isPaused$.subscribe(v => this.paused.set(v));
+    // La cola emite una nueva lista cada vez que cambia el progreso o estado de un archivo
+    this.queue.items$.subscribe(items => this.items.set(items));
+    this.queue.isRunning$.subscribe(v => this.running.set(v));
+    this.uploadSvc.transport$.subscribe(v => this.transport.set(v));
+    this.uploadSvc.offline$.subscribe(v => this.offline.set(v));
+    this.uploadSvc.globalRateLimit$.subscribe(v => this.globalRateLimit.set(v));
+    this.uploadSvc.abortOnPause$.subscribe(v => this.abortOnPause.set(v));
+    this.queue.schedule$.subscribe(v => this.schedule.set(v));
+    this.queue.inSchedule$.subscribe(v => this.inSchedule.set(v));
+
+    // Las subidas que quedaron registradas en IndexedDB se ofrecen para reanudar
+    this.store.list().then(uploads => this.resumable.set(uploads));
   }
 
-  ngOnDestroy() {
-    // Cleanup: cancelar subida en curso si el componente se destruye
-    if (this.uploading()) {
-      this.uploadSvc.cancel();
-    }
+  /**
+   * Pide al usuario que vuelva a elegir el archivo de una subida interrumpida
+   * 
+   * @param upload - Subida registrada
+   * @param input - Input file oculto para elegir el archivo
+   */
+  chooseResumeFile(upload: StoredUpload, input: HTMLInputElement) {
+    this.resuming = upload;
+    input.click();
   }
 
   /**
-   * Maneja la selección de archivo desde input file
+   * Verifica el archivo elegido y lo encola para continuar su sesión
+   * ASYNC: La huella lee el principio y el final del archivo
+   * 
+   * Si la huella no coincide se muestra el motivo y la subida sigue en la
+   * lista; si coincide, la cola continúa desde el estado del servidor.
    * 
    * @param e - Evento del input file
    */
-  onFile(e: Event) {
+  async onResumeFile(e: Event) {
     const input = e.target as HTMLInputElement;
     const file = input.files?.[0];
-    if (file) {
-      this.setFile(file);
-    } else {
-      this.clearFile(e);
+    const upload = this.resuming;
+    input.value = '';
+    this.resuming = undefined;
+    if (!file || !upload) return;
+
+    const problem = await this.store.verify(upload, file);
+    if (problem) {
+      this.error.set(`${upload.relativePath || upload.fileName}: ${problem}`);
+      return;
     }
+    this.error.set(null);
+    this.resumable.update(uploads => uploads.filter(u => u.uploadId !== upload.uploadId));
+    this.queue.add([{ file, relativePath: upload.relativePath, uploadId: upload.uploadId }]);
   }
 
   /**
-   * Verifica si se puede iniciar la subida
+   * Descarta una subida interrumpida: la olvida y pide al servidor que borre su sesión
    * 
-   * @returns true si hay archivo seleccionado y no se está subiendo
+   * @param upload - Subida registrada
    */
-  canStart() { 
-    return !!this.file && !this.uploading(); 
+  discardResumable(upload: StoredUpload) {
+    this.resumable.update(uploads => uploads.filter(u => u.uploadId !== upload.uploadId));
+    this.store.remove(upload.uploadId);
+    this.uploadSvc.abortUpload(upload.uploadId).subscribe({
+      error: err => console.error(`No se pudo descartar la sesión ${upload.uploadId} en el servidor:`, err),
+    });
   }
 
   /**
-   * Inicia el proceso de subida ASÍNCRONO
+   * Cambia el protocolo de las próximas subidas
    * 
-   * ASINCRONÍA:
-   * - Pipeline reactivo RxJS (Observable streams)
-   * - Operaciones no bloqueantes en el hilo principal
-   * - Manejo de eventos asincrónicos (success/error)
-   * - Actualizaciones de UI en tiempo real vía signals
+   * @param transport - `chunks` (API propia), `worker` (API propia desde un Web Worker) o `tus`
+   */
+  setTransport(transport: UploadTransport) {
+    this.uploadSvc.transport$.next(transport);
+  }
+
+  /**
+   * Elige si pausar corta los chunks que se están enviando
+   * 
+   * Si los corta, la pausa es inmediata y esos chunks se reenvían enteros al
+   * reanudar; si no, terminan de enviarse antes de parar.
    * 
-   * Pipeline reactivo:
-   * 1. Inicializa la sesión en el servidor (HTTP async)
-   * 2. Inicia la subida multipart (chunks paralelos async)
-   * 3. Maneja errores y completado (callbacks async)
+   * @param abort - Cortar los chunks en vuelo al pausar
    */
-  start() {
-    if (!this.file) return;
+  setAbortOnPause(abort: boolean) {
+    this.uploadSvc.abortOnPause$.next(abort);
+  }
+
+  /**
+   * Cambia el límite de ancho de banda global, también con subidas en curso
+   * 
+   * @param value - MB/s escritos por el usuario (vacío: sin límite)
+   */
+  setGlobalRateLimit(value: string) {
+    this.uploadSvc.globalRateLimit$.next(this.parseRate(value));
+  }
+
+  /**
+   * Cambia el límite de ancho de banda de un archivo, también en plena subida
+   * 
+   * @param item - Archivo de la cola
+   * @param value - MB/s escritos por el usuario (vacío: sin límite)
+   */
+  setItemRateLimit(item: QueueItem, value: string) {
+    this.queue.setRateLimit(item.id, this.parseRate(value));
+  }
+
+  /**
+   * Activa, cambia o quita el horario de subida
+   * 
+   * Una franja no válida se rechaza con un mensaje y deja el horario como estaba.
+   * 
+   * @param enabled - Limitar las subidas a la franja
+   * @param start - Hora de inicio "HH:MM"
+   * @param end - Hora de fin "HH:MM"
+   */
+  setSchedule(enabled: boolean, start: string, end: string) {
+    if (!enabled) {
+      this.queue.setSchedule(null);
+      return;
+    }
+    const schedule = { start, end };
+    const problem = validateSchedule(schedule);
+    if (problem) {
+      this.error.set(`Horario de subida: ${problem}`);
+      return;
+    }
     this.error.set(null);
-    this.done.set(false);
-    
-    // ASYNC: Observable pipeline - operaciones no bloqueantes
-    this.uploadSvc.initUpload(this.file).pipe(
-      // ASYNC: concatMap mantiene orden secuencial pero procesa async
-      concatMap(init => this.uploadSvc.uploadFileMultipart(this.file!, init))
-    ).subscribe({
-      // ASYNC: Manejo de errores asincrónicos
-      error: (err) => this.error.set(err?.message || 'Fallo subiendo'),
-      // ASYNC: Callback de completado asíncrono
-      complete: () => this.done.set(true),
-    });
+    this.queue.setSchedule(schedule);
+  }
+
+  /**
+   * Convierte bytes/s al valor en MB/s que se muestra en los inputs
+   */
+  rateInMb(bytesPerSecond: number | null | undefined) {
+    return bytesPerSecond ? +(bytesPerSecond / (1024 * 1024)).toFixed(2) : '';
+  }
+
+  /**
+   * Interpreta un límite en MB/s
+   * 
+   * @returns Bytes/s, o null si está vacío o no es un número positivo
+   */
+  private parseRate(value: string): number | null {
+    const mb = Number(value);
+    return value.trim() && mb > 0 ? Math.round(mb * 1024 * 1024) : null;
+  }
+
+  ngOnDestroy() {
+    // Cleanup: cancelar subidas en curso si el componente se destruye
+    if (this.running()) {
+      this.queue.cancelAll();
+    }
   }
 
   /**
-   * Pausa la subida actual
-   * ASYNC: Envía señal asíncrona para pausar chunks en progreso
+   * Maneja la selección de archivos o carpetas desde los input file
+   * 
+   * Con `webkitdirectory` cada archivo trae su ruta relativa en `webkitRelativePath`.
+   * 
+   * @param e - Evento del input file
    */
-  pause()  { 
-    this.uploadSvc.pause();  
+  onFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    this.addFiles(files.map(file => ({ file, relativePath: file.webkitRelativePath || undefined })));
+    input.value = '';
   }
 
   /**
-   * Reanuda la subida pausada
-   * ASYNC: Reactiva el pipeline de chunks pendientes
+   * Verifica si se puede iniciar la cola
+   * 
+   * @returns true si hay archivos en cola y la cola no está en marcha
    */
-  resume() { 
-    this.uploadSvc.resume(); 
+  canStart() { 
+    return !this.running() && this.items().some(item => item.state === 'queued'); 
   }
 
   /**
-   * Cancela la subida y resetea el estado
-   * ASYNC: Aborta requests HTTP en curso y limpia observables
+   * Inicia la subida de todos los archivos en cola
+   * 
+   * La cola sube varios archivos a la vez (con límite global) y cada uno
+   * publica su propio progreso en la lista.
    */
-  cancel() { 
-    this.uploadSvc.cancel(); 
-    this.done.set(false); 
-    this.error.set(null); 
+  start() {
+    this.error.set(null);
+    this.queue.start();
+  }
+
+  /** Pausa un archivo en curso */
+  pause(item: QueueItem)  { this.queue.pause(item.id); }
+
+  /** Reanuda un archivo pausado */
+  resume(item: QueueItem) { this.queue.resume(item.id); }
+
+  /** Cancela un archivo en cola o en curso */
+  cancel(item: QueueItem) { this.queue.cancel(item.id); }
+
+  /** Vuelve a encolar un archivo fallido o cancelado */
+  retry(item: QueueItem)  { this.queue.retry(item.id); }
+
+  /** Quita un archivo de la lista */
+  remove(item: QueueItem) { this.queue.remove(item.id); }
+
+  /** Cancela todos los archivos pendientes */
+  cancelAll() { this.queue.cancelAll(); }
+
+  /** Quita de la lista los archivos terminados o cancelados */
+  clearFinished() { this.queue.clearFinished(); }
+
+  /**
+   * Etiqueta legible del estado de un archivo
+   */
+  stateLabel(state: QueueItemState) {
+    return STATE_LABELS[state];
   }
 
   // MÉTODOS ASÍNCRONOS PARA DRAG & DROP
@@ -165,64 +293,112 @@ export class UploaderComponent implements OnDestroy {
   }
 
   /**
-   * Maneja el evento drop (cuando se suelta el archivo)
-   * ASYNC: Event handler con procesamiento asíncrono de archivos
+   * Maneja el evento drop (cuando se sueltan archivos o carpetas)
+   * ASYNC: Recorre las carpetas soltadas con la API de entradas del navegador
+   * 
+   * Las entradas deben obtenerse de forma síncrona dentro del evento; después
+   * se recorren las carpetas de forma asíncrona conservando las rutas relativas.
    * 
    * @param event - Evento de drop con los archivos
    */
-  onDrop(event: DragEvent) {
+  async onDrop(event: DragEvent) {
     event.preventDefault();
     event.stopPropagation();
     this.isDragOver.set(false);
 
-    const files = event.dataTransfer?.files;
-    if (files && files.length > 0) {
-      const file = files[0];
-      this.setFile(file);  // ASYNC: Procesamiento de archivo sin bloqueo
+    const transfer = event.dataTransfer;
+    if (!transfer) return;
+
+    const entries = Array.from(transfer.items ?? [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    // Navegadores sin soporte de entradas: solo archivos sueltos
+    if (entries.length === 0) {
+      await this.addFiles(Array.from(transfer.files).map(file => ({ file })));
+      return;
     }
+
+    const collected: { file: File; relativePath?: string }[] = [];
+    for (const entry of entries) {
+      await this.collectEntry(entry, collected);
+    }
+    await this.addFiles(collected);
   }
 
   /**
-   * Limpia el archivo seleccionado y resetea el estado
+   * Recorre recursivamente una entrada (archivo o carpeta)
    * 
-   * @param event - Evento del botón/acción
+   * @param entry - Entrada soltada
+   * @param out - Lista donde acumular los archivos con su ruta relativa
    */
-  clearFile(event: Event) {
-    event.stopPropagation();
-    this.file = null;
-    this.fileName.set('');
-    this.totalBytes.set(0);
-    this.percent.set(0);
-    this.sentBytes.set(0);
-    this.done.set(false);
-    this.error.set(null);
+  private async collectEntry(entry: FileSystemEntry, out: { file: File; relativePath?: string }[]) {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      // fullPath empieza por "/"; para archivos sueltos coincide con el nombre
+      const relativePath = entry.fullPath.replace(/^\/+/, '');
+      out.push({ file, relativePath: relativePath !== file.name ? relativePath : undefined });
+      return;
+    }
+
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries devuelve los resultados por lotes: hay que llamarlo hasta que venga vacío
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) {
+          await this.collectEntry(child, out);
+        }
+      }
+    }
   }
 
   /**
-   * Establece un nuevo archivo y resetea el estado previo
+   * Valida y añade archivos a la cola
+   * ASYNC: Pide al servidor su política de tipos de archivo (solo la primera vez)
    * 
-   * @param file - Archivo seleccionado
+   * Los archivos rechazados se listan en el mensaje de error. Si la política
+   * no se puede obtener solo se hacen las comprobaciones básicas: el
+   * servidor la aplica igualmente al inicializar cada subida.
+   * 
+   * @param entries - Archivos con su ruta relativa opcional
    */
-  private setFile(file: File) {
-    // Validación básica
-    const maxSize = 10 * 1024 * 1024 * 1024; // 10GB límite para POC
-    if (file.size > maxSize) {
-      this.error.set(`Archivo muy grande. Máximo: ${this.humanSize(maxSize)}`);
-      return;
+  private async addFiles(entries: { file: File; relativePath?: string }[]) {
+    const accepted: { file: File; relativePath?: string }[] = [];
+    const rejected: string[] = [];
+
+    const policy = await firstValueFrom(this.uploadSvc.policy$).catch(err => {
+      console.error('No se pudo obtener la política de archivos del servidor:', err);
+      return null;
+    });
+
+    for (const entry of entries) {
+      const problem = this.validateFile(entry.file, policy);
+      if (problem) {
+        rejected.push(`${entry.relativePath || entry.file.name}: ${problem}`);
+      } else {
+        accepted.push(entry);
+      }
     }
 
+    this.error.set(rejected.length ? rejected.join(' · ') : null);
+    if (accepted.length) this.queue.add(accepted);
+  }
+
+  /**
+   * Validación de un archivo antes de encolarlo
+   * 
+   * @param file - Archivo seleccionado
+   * @param policy - Política de tipos de archivo del servidor (null si no se pudo obtener)
+   * @returns Motivo del rechazo, o null si es válido
+   */
+  private validateFile(file: File, policy: FilePolicy | null): string | null {
     if (file.size === 0) {
-      this.error.set('El archivo está vacío');
-      return;
+      return 'El archivo está vacío';
     }
 
-    this.file = file;
-    this.done.set(false);
-    this.error.set(null);
-    this.fileName.set(file.name);
-    this.totalBytes.set(file.size);
-    this.percent.set(0);
-    this.sentBytes.set(0);
+    return policy ? checkFilePolicy(policy, file, n => this.humanSize(n)) : null;
   }
 
   /**
@@ -2,164 +2,1216 @@
 import express from 'express';
 import multer from 'multer';
 import cors from 'cors';
-import fs from 'fs';
-import path from 'path';
 import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream';
+import { AsyncResource } from 'async_hooks';
+import { SessionState, SessionStore, UploadSession, expectedChunkBytes, isExpired, partRange } from './src/sessions';
+import { AssemblyError, AssemblyJob } from './src/assembly';
+import { FileCatalog, FileQuery, FileRecord, FileSortField } from './src/catalog';
+import { ApiError, sendError } from './src/errors';
+import { partStorage } from './src/parts';
+import { checkContent, checkDeclaredFile } from './src/file-policy';
+import { checkPartRange, coverage, maxPartBytes, maxPartCount, parsePartOffset, partLimitsFor } from './src/ranges';
+import { sanitizeFileName, sanitizeRelativeDir } from './src/naming';
+import { expireSession, startSweeper } from './src/sweeper';
+import { UploadEvents, streamEvents } from './src/events';
+import { ProcessingPipeline, createProcessors, thumbnailPath } from './src/processing';
+import { ByteRange, PendingPart, createStorage } from './src/storage';
+import { authenticate, loadAuthKey, requestUser, requireAdmin } from './src/auth';
+import { addLogContext, logger, requestLogger } from './src/logger';
+import { MetricsRegistry } from './src/metrics';
+import { checkDirectories } from './src/health';
+import { DeliveryStatus, WEBHOOK_EVENT_TYPES, WebhookEventType, createWebhooks, fileData, uploadData } from './src/webhooks';
+import { TUS_CHECKSUM_ALGORITHMS, TUS_EXTENSIONS, TUS_VERSION, TusTails, parseChecksum, parseMetadata, writeTusBody } from './src/tus';
+import {
+  ADMIN_USERS, COLLISION_POLICY, CORS_ORIGINS, DEFAULT_CHUNK_SIZE, FILES_ROOT, FILE_POLICY, MAX_CHUNK_SIZE, MAX_TEMP_BYTES, MAX_UPLOAD_SIZE,
+  MIN_CHUNK_SIZE, PROCESSING_ROOT, SESSIONS_ROOT, SESSION_RETENTION_MS, SESSION_TTL_MS, SWEEP_INTERVAL_MS, TEMP_ROOT, THUMBNAILS_ROOT, TUS_TAILS_ROOT,
+  UPLOAD_ROOT, USER_QUOTA_BYTES,
+} from './src/config';
 
 const app = express();
-app.use(cors());
+
+// Log estructurado de cada petición con su X-Request-Id (las sondas del clúster, solo en debug)
+app.use(requestLogger(['/healthz', '/readyz', '/metrics']));
+
+// Métricas Prometheus servidas en /metrics
+const metrics = new MetricsRegistry();
+const httpDuration = metrics.histogram('uploader_http_request_duration_seconds', 'Duración de las peticiones HTTP por ruta',
+  [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]);
+const failures = metrics.counter('uploader_failures_total', 'Errores por código estructurado (respuestas de la API y ensamblados fallidos)');
+const receivedBytes = metrics.counter('uploader_received_bytes_total', 'Bytes de chunks almacenados por protocolo');
+const chunkDuration = metrics.histogram('uploader_chunk_duration_seconds', 'Tiempo en recibir y almacenar un chunk (en tus, cada PATCH)',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]);
+const assemblyDuration = metrics.histogram('uploader_assembly_duration_seconds', 'Duración de los ensamblados por resultado',
+  [0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600, 1800]);
+metrics.gauge('uploader_sessions', 'Sesiones de subida por estado (open y assembling son las activas)', gauge => {
+  const counts: Record<SessionState, number> = { open: 0, assembling: 0, complete: 0, expired: 0, aborted: 0 };
+  for (const session of sessions.list()) counts[session.state]++;
+  for (const [state, count] of Object.entries(counts)) gauge.set({ state }, count);
+});
+metrics.gauge('uploader_temp_bytes', 'Bytes de chunks de las sesiones activas en el área temporal', gauge => gauge.set({}, sessions.storedBytes()));
+metrics.gauge('uploader_temp_limit_bytes', 'Máximo del área temporal (MAX_TEMP_BYTES)', gauge => gauge.set({}, MAX_TEMP_BYTES));
+metrics.gauge('uploader_temp_disk_free_bytes', 'Espacio libre en el disco del área temporal', async gauge => {
+  const stats = await fs.promises.statfs(TEMP_ROOT);
+  gauge.set({}, stats.bavail * stats.bsize);
+});
+metrics.gauge('process_resident_memory_bytes', 'Memoria residente del proceso', gauge => gauge.set({}, process.memoryUsage().rss));
+metrics.gauge('process_uptime_seconds', 'Tiempo desde el arranque del proceso', gauge => gauge.set({}, process.uptime()));
+
+// Duración de cada petición por ruta (el patrón, no la URL) y errores por código
+app.use((req, res, next) => {
+  const end = httpDuration.startTimer();
+  res.on('close', () => {
+    end({ method: req.method, route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched', status: res.statusCode });
+    if (res.locals.errorCode) failures.inc({ code: res.locals.errorCode });
+  });
+  next();
+});
+
+// Descubrimiento tus: cors contesta él mismo a los OPTIONS, así que las capacidades se anuncian antes
+app.options(['/api/tus', '/api/tus/:uploadId'], (req, res, next) => {
+  res.set({
+    'Tus-Resumable': TUS_VERSION,
+    'Tus-Version': TUS_VERSION,
+    'Tus-Extension': TUS_EXTENSIONS.join(','),
+    'Tus-Max-Size': String(MAX_UPLOAD_SIZE),
+    'Tus-Checksum-Algorithm': TUS_CHECKSUM_ALGORITHMS.join(','),
+  });
+  next();
+});
+app.use(cors({
+  origin: CORS_ORIGINS,
+  exposedHeaders: ['Retry-After', 'Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires', 'Upload-Metadata', 'Tus-Resumable', 'Tus-Version', 'Tus-Max-Size'],
+}));
 app.use(express.json({ limit: '2mb' }));
 
-const UPLOAD_ROOT = path.join(process.cwd(), 'uploads');
-const TEMP_ROOT = path.join(process.cwd(), 'tmp_uploads');
-fs.mkdirSync(UPLOAD_ROOT, { recursive: true });
-fs.mkdirSync(TEMP_ROOT, { recursive: true });
+// Toda respuesta tus lleva Tus-Resumable y toda petición debe declarar la versión soportada
+app.use('/api/tus', (req, res, next) => {
+  res.set('Tus-Resumable', TUS_VERSION);
+  if (req.get('Tus-Resumable') !== TUS_VERSION) {
+    res.set('Tus-Version', TUS_VERSION);
+    return sendError(res, new ApiError(412, 'TUS_VERSION_UNSUPPORTED', `Solo se admite tus ${TUS_VERSION}`));
+  }
+  next();
+});
+
+// Toda la API exige un JWT verificado con la clave local
+app.use('/api', authenticate(loadAuthKey()));
+
+// Los logs de las rutas de una sesión o de un archivo llevan su ID
+app.param('uploadId', (_req, _res, next, uploadId) => {
+  addLogContext({ uploadId });
+  next();
+});
+app.param('fileId', (_req, _res, next, fileId) => {
+  addLogContext({ fileId });
+  next();
+});
+
+// Almacenamiento de chunks y archivos finales (disco local o S3, según STORAGE_BACKEND)
+const storage = createStorage();
+logger.info('Almacenamiento', { storage: storage.name });
+
+// Bytes de subidas tus a la espera de completar un chunk
+const tusTails = new TusTails(TUS_TAILS_ROOT);
+
+// Registro persistente de sesiones para poder reanudar subidas
+const sessions = new SessionStore(SESSIONS_ROOT, SESSION_TTL_MS);
+
+// Eventos del ciclo de vida de las sesiones, servidos por SSE en /api/uploads/events
+const uploadEvents = new UploadEvents();
+
+// Webhooks salientes (subidas completadas, fallidas y caducadas) con registro de entregas
+const webhooks = createWebhooks();
+
+// Caduca periódicamente las subidas abandonadas y libera sus temporales
+startSweeper(sessions, storage, tusTails, uploadEvents, webhooks, SESSION_RETENTION_MS, SWEEP_INTERVAL_MS);
+
+// Catálogo de archivos subidos (nombre, tamaño, hash, propietario...)
+const catalog = new FileCatalog(FILES_ROOT);
+
+// Procesamiento tras el ensamblado (antivirus, metadatos, miniaturas); cada cambio se publica por SSE
+const processing = new ProcessingPipeline(createProcessors(), catalog, storage, PROCESSING_ROOT, record => {
+  const type = record.processing?.state === 'processing' ? 'processing' : 'processed';
+  uploadEvents.publish({ ...record, fileSize: record.size }, type, { fileId: record.fileId, processing: record.processing });
+  if (type === 'processed') webhooks.dispatch('file.processed', { file: fileData(record), processing: record.processing });
+});
+const resumedProcessing = processing.resume();
+if (resumedProcessing) logger.info('Archivos pendientes de procesar tras el reinicio', { files: resumedProcessing });
+
+// Trabajos de ensamblado en curso o terminados, por uploadId
+const assemblyJobs = new Map<string, AssemblyJob>();
 
 function newUploadId() {
   return crypto.randomBytes(16).toString('hex');
 }
 
-const storage = multer.memoryStorage();
-const upload = multer({ storage });
+function newFileId() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Busca una sesión del usuario autenticado
+ *
+ * Las sesiones de otros usuarios se tratan como inexistentes para no revelar
+ * qué uploadId existen.
+ */
+function ownedSession(req: express.Request, res: express.Response) {
+  const session = sessions.get(req.params.uploadId);
+  return session && session.owner === requestUser(res) ? session : undefined;
+}
+
+/**
+ * Valida un índice de chunk contra el contrato de la sesión
+ *
+ * Con partes variables el número de partes no se conoce hasta completar, así
+ * que se admite hasta el máximo posible según el tamaño mínimo.
+ *
+ * @returns El índice como número entero
+ */
+function parseChunkIndex(session: UploadSession, value: unknown) {
+  const chunkIndex = Number(value);
+  const limit = session.partLimits ? maxPartCount(session) : session.totalChunks;
+  if (value === undefined || value === '' || !Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= limit) {
+    throw new ApiError(400, 'INVALID_CHUNK_INDEX', `chunkIndex debe ser un entero entre 0 y ${limit - 1}`, { totalChunks: session.totalChunks });
+  }
+  return chunkIndex;
+}
+
+/**
+ * Responde 410 si la sesión ha caducado
+ *
+ * Si la caducidad ya venció pero el barrido aún no pasó, la sesión se
+ * caduca en el momento.
+ *
+ * @returns true si se respondió con el error
+ */
+function rejectExpired(session: UploadSession, res: express.Response) {
+  if (!isExpired(session)) return false;
+  if (session.state === 'open') {
+    expireSession(sessions, storage, uploadEvents, webhooks, session.uploadId).catch(error => logger.error('Error caducando la sesión', { uploadId: session.uploadId, error }));
+  }
+  sendError(res, new ApiError(410, 'SESSION_EXPIRED', 'La sesión de subida ha caducado, vuelve a iniciarla', { expiresAt: session.expiresAt }));
+  return true;
+}
+
+// Los chunks pasan en streaming al almacenamiento, nunca se cargan completos en memoria
+const chunkStorage = partStorage(req => {
+  const session = sessions.get(req.params.uploadId)!;
+  // El tamaño exacto se comprueba al confirmar la parte, cuando ya se conoce el índice
+  return { storage, session, maxBytes: session.partLimits?.maxBytes ?? session.chunkSize };
+});
+const upload = multer({ storage: chunkStorage, limits: { files: 1, fields: 10 } });
+
+/**
+ * Middleware: exige una sesión abierta
+ *
+ * Deja la sesión en `res.locals` para los handlers siguientes.
+ */
+function requireOpenSession(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const session = ownedSession(req, res);
+  if (!session) return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  if (rejectExpired(session, res)) return;
+  if (session.state !== 'open') return sendError(res, new ApiError(409, 'SESSION_NOT_OPEN', 'La sesión ya no admite chunks', { state: session.state }));
+  if (session.tus) return sendError(res, new ApiError(409, 'WRONG_PROTOCOL', 'La subida se creó con tus: envía los datos con PATCH a su URL'));
+  res.locals.session = session;
+  next();
+}
+
+/**
+ * Verifica y confirma una parte ya recibida por el almacenamiento
+ *
+ * Comprueba el índice y el tamaño contra el contrato de la sesión y el hash
+ * enviado por el cliente, y en la primera parte el tipo real del archivo
+ * según sus primeros bytes; confirma la parte en el almacenamiento y la
+ * registra en la sesión. Si algo falla, la parte se descarta.
+ *
+ * En sesiones de partes variables el cliente declara además el offset de la
+ * parte, que queda registrado junto a su tamaño.
+ *
+ * @param session - Sesión de subida
+ * @param rawIndex - Índice del chunk tal como llegó en la petición
+ * @param part - Parte pendiente de confirmar
+ * @param chunkHash - SHA-256 declarado por el cliente (opcional)
+ * @param rawOffset - Offset de la parte tal como llegó (solo partes variables)
+ * @returns Índice del chunk almacenado
+ */
+async function storePart(session: UploadSession, rawIndex: unknown, part: PendingPart, chunkHash?: string, rawOffset?: unknown) {
+  try {
+    const chunkIndex = parseChunkIndex(session, rawIndex);
+    const offset = session.partLimits ? parsePartOffset(session, rawOffset) : undefined;
+    if (offset !== undefined) {
+      checkPartRange(session, chunkIndex, offset, part.size);
+    } else {
+      const expectedBytes = expectedChunkBytes(session, chunkIndex);
+      if (part.size !== expectedBytes) {
+        throw new ApiError(400, 'CHUNK_SIZE_MISMATCH', `El chunk ${chunkIndex} debe medir ${expectedBytes} bytes y mide ${part.size}`, { expectedBytes, receivedBytes: part.size });
+      }
+    }
+
+    // Verifica la integridad del chunk contra el hash enviado por el cliente
+    if (chunkHash && chunkHash.toLowerCase() !== part.hash) {
+      logger.warn('Hash de chunk no coincide', { chunkIndex, expected: chunkHash, received: part.hash });
+      throw new ApiError(422, 'CHUNK_HASH_MISMATCH', `El hash del chunk ${chunkIndex} no coincide`);
+    }
+
+    // El principio del archivo debe corresponder al tipo declarado (un .exe renombrado no pasa)
+    const isFirstPart = offset !== undefined ? offset === 0 : chunkIndex === 0;
+    if (isFirstPart) checkContent(FILE_POLICY, session, part.head);
+
+    // La sesión pudo cancelarse mientras llegaba el chunk
+    if (session.state !== 'open') {
+      throw new ApiError(409, 'SESSION_NOT_OPEN', 'La sesión ya no admite chunks', { state: session.state });
+    }
+
+    await part.commit(chunkIndex);
+    sessions.markChunk(session.uploadId, chunkIndex, part.hash, offset !== undefined ? { offset, size: part.size } : undefined);
+    receivedBytes.inc({ protocol: session.tus ? 'tus' : 'chunks' }, part.size);
+    logger.debug('Chunk almacenado', { uploadId: session.uploadId, chunkIndex, offset, size: part.size });
+    uploadEvents.publish(session, 'chunk-received', { chunkIndex, receivedChunks: session.receivedChunks.length, totalChunks: session.totalChunks });
+    return chunkIndex;
+  } catch (error) {
+    await part.discard();
+    throw error;
+  }
+}
+
+/**
+ * Valida el nombre, el tamaño y el tipo declarados para una subida nueva
+ *
+ * Además de los límites generales aplica la política de tipos de archivo
+ * (extensiones y tipos MIME admitidos y límites por tipo).
+ *
+ * @param fileName - Nombre del archivo tal como llegó en la petición
+ * @param size - Tamaño declarado en bytes
+ * @param mimeType - Tipo MIME declarado por el cliente
+ */
+function validateDeclaredFile(fileName: unknown, size: number, mimeType: string): asserts fileName is string {
+  if (!fileName || typeof fileName !== 'string') {
+    throw new ApiError(400, 'INVALID_FILE_NAME', 'Se requiere fileName');
+  }
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    throw new ApiError(400, 'INVALID_FILE_SIZE', 'fileSize debe ser un entero positivo');
+  }
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new ApiError(413, 'FILE_TOO_LARGE', `El archivo supera el máximo de ${MAX_UPLOAD_SIZE} bytes`, { maxBytes: MAX_UPLOAD_SIZE });
+  }
+  checkDeclaredFile(FILE_POLICY, fileName, mimeType, size);
+}
+
+/**
+ * Abre una sesión de subida nueva
+ *
+ * Comprueba la cuota del usuario, la política de colisiones y el espacio
+ * temporal, registra la sesión y prepara su almacenamiento. La comparten
+ * `/api/uploads/init` y la creación de subidas tus.
+ *
+ * Con `variableParts` el cliente elige el tamaño de cada parte dentro de
+ * unos límites en lugar de seguir un tamaño de chunk fijo.
+ *
+ * @param owner - Usuario autenticado
+ * @param declared - Archivo declarado por el cliente (ya validado)
+ * @returns Sesión abierta
+ */
+async function openSession(owner: string, declared: {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  relativePath?: string;
+  fingerprint: string;
+  tus?: UploadSession['tus'];
+  variableParts?: boolean;
+}) {
+  const { fileName, fileSize: size, relativePath } = declared;
+
+  // La nueva sesión no puede exceder la cuota del usuario
+  const usedBytes = sessions.bytesByOwner(owner) + catalog.bytesByOwner(owner);
+  if (usedBytes + size > USER_QUOTA_BYTES) {
+    throw new ApiError(403, 'QUOTA_EXCEEDED', 'La subida excede la cuota del usuario', { quotaBytes: USER_QUOTA_BYTES, usedBytes });
+  }
+
+  // Con la política `reject` se avisa antes de subir nada si la ruta ya existe
+  const relativeDir = sanitizeRelativeDir(relativePath);
+  const targetPath = [relativeDir, sanitizeFileName(fileName)].filter(Boolean).join('/');
+  if (COLLISION_POLICY === 'reject' && catalog.has(owner, targetPath)) {
+    throw new ApiError(409, 'FILE_EXISTS', `Ya existe un archivo en ${targetPath}`, { relativePath: targetPath });
+  }
+
+  // No se abren sesiones nuevas si el área temporal no tiene sitio para el archivo
+  const tempBytes = sessions.storedBytes();
+  if (tempBytes + size > MAX_TEMP_BYTES) {
+    throw new ApiError(507, 'TEMP_STORAGE_FULL', 'El almacenamiento temporal está lleno, inténtalo más tarde', { maxTempBytes: MAX_TEMP_BYTES, tempBytes });
+  }
+
+  // Genera un ID único para la subida
+  const uploadId = newUploadId();
+  addLogContext({ uploadId });
+  logger.info('Sesión de subida creada', { owner, fileName, fileSize: size });
+
+  // El chunk respeta los límites de partes del almacenamiento (S3: mínimo 5 MB y 10000 partes)
+  const partLimits = declared.variableParts
+    ? partLimitsFor(size, storage, { minBytes: MIN_CHUNK_SIZE, maxBytes: MAX_CHUNK_SIZE })
+    : undefined;
+  const chunkSize = partLimits
+    ? Math.min(Math.max(DEFAULT_CHUNK_SIZE, partLimits.minBytes), partLimits.maxBytes)
+    : Math.max(DEFAULT_CHUNK_SIZE, storage.minPartSize, Math.ceil(size / storage.maxParts));
+
+  // Registra la sesión para poder reanudarla más tarde; el fileId se fija ya
+  // porque el almacenamiento puede necesitar la ubicación final desde el inicio
+  const session = sessions.create({
+    uploadId,
+    fileId: newFileId(),
+    fileName,
+    relativeDir,
+    fileSize: size,
+    mimeType: declared.mimeType,
+    chunkSize,
+    // Con partes variables el número real de partes se fija al completar
+    totalChunks: partLimits ? 0 : Math.ceil(size / chunkSize),
+    owner,
+    fingerprint: declared.fingerprint,
+    tus: declared.tus,
+    ...(partLimits && { partLimits, partRanges: {} }),
+  });
+
+  // Prepara el almacenamiento de la sesión (directorio temporal o multipart upload)
+  try {
+    const storageRef = await storage.createSession(session);
+    if (storageRef) sessions.update(uploadId, { storageRef });
+  } catch (error) {
+    sessions.update(uploadId, { state: 'aborted' });
+    throw error;
+  }
+
+  uploadEvents.publish(session, 'created');
+  return session;
+}
+
+/**
+ * Contrato de una sesión tal como se devuelve al inicializar o reanudar
+ *
+ * @param session - Sesión abierta
+ * @param uploadedChunks - Chunks ya almacenados
+ */
+function sessionContract(session: UploadSession, uploadedChunks: number[]) {
+  return {
+    uploadId: session.uploadId,
+    recommendedChunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    uploadedChunks,
+    expiresAt: session.expiresAt,
+    // Con partes variables el cliente necesita los límites y el tramo de cada parte ya subida
+    ...(session.partLimits && {
+      variableParts: true,
+      minChunkSize: session.partLimits.minBytes,
+      maxChunkSize: session.partLimits.maxBytes,
+      uploadedParts: uploadedChunks.map(chunkIndex => ({ chunkIndex, ...partRange(session, chunkIndex)! })),
+    }),
+  };
+}
 
-// Inicializa una nueva subida, crea un directorio temporal y devuelve un uploadId
-app.post('/api/uploads/init', (req, res) => {
-  console.log('Solicitud de inicialización recibida:', req.body);
+// Inicializa una subida: reanuda una sesión abierta del mismo archivo o crea una nueva
+app.post('/api/uploads/init', async (req, res) => {
   try {
     // Extrae información del archivo desde el body
-    const { fileName, fileSize, mimeType } = req.body || {};
-  console.log('Información del archivo:', { fileName, fileSize, mimeType });
+    const { fileName, fileSize, mimeType, fingerprint, relativePath, variableParts } = req.body || {};
+    logger.debug('Solicitud de inicialización', { fileName, fileSize, mimeType, fingerprint, relativePath, variableParts });
+    const owner = requestUser(res);
+    const size = Number(fileSize);
+    const declaredType = String(mimeType || 'application/octet-stream');
 
-    // Genera un ID único para la subida
-    const uploadId = newUploadId();
-  console.log('uploadId generado:', uploadId);
+    // Valida el archivo declarado antes de reservar nada
+    validateDeclaredFile(fileName, size, declaredType);
 
-    // Crea un directorio temporal para almacenar los chunks
-    const dir = path.join(TEMP_ROOT, uploadId);
-  console.log('Creando directorio temporal:', dir);
-    fs.mkdirSync(dir, { recursive: true });
+    // Sin huella del cliente se usa nombre + tamaño como identificación mínima
+    const fileFingerprint = String(fingerprint || `${relativePath || fileName}:${fileSize}`);
 
-    // Devuelve el uploadId y el tamaño recomendado de chunk
-    const response = {
-      uploadId,
-      recommendedChunkSize: 10 * 1024 * 1024,
-      uploadedChunks: [],
-    };
-  console.log('Enviando respuesta:', response);
+    // Busca una sesión abierta para el mismo archivo
+    const existing = sessions.findResumable(owner, fileFingerprint, fileName, size);
+    if (existing) {
+      // Solo se reportan los chunks cuya parte sigue presente en el almacenamiento
+      const present = new Set((await storage.listParts(existing)).map(p => p.index));
+      const stored = sessions.retainChunks(existing.uploadId, present);
+      // Reanudar cuenta como actividad: la sesión no caduca mientras se sigue usando
+      sessions.touch(existing.uploadId);
+
+      // Se reanuda con el contrato original de la sesión, aunque el cliente pida otro modo de partes
+      const response = sessionContract(existing, stored);
+      logger.info('Reanudando sesión existente', { uploadId: existing.uploadId, chunks: stored.length });
+      return res.json(response);
+    }
+
+    const session = await openSession(owner, {
+      fileName,
+      fileSize: size,
+      mimeType: declaredType,
+      relativePath: relativePath ? String(relativePath) : undefined,
+      fingerprint: fileFingerprint,
+      variableParts: variableParts === true,
+    });
+
+    // Devuelve el uploadId y el contrato acordado (tamaño y número de chunks, o límites de las partes)
+    const response = sessionContract(session, session.receivedChunks);
     res.json(response);
   } catch (error) {
-    // Manejo de errores
-  console.error('Error en /init:', error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
-// Recibe y almacena un chunk de archivo en el directorio temporal correspondiente
-app.post('/api/uploads/:uploadId/chunk', upload.single('chunk'), (req, res) => {
-  // Extrae parámetros de la petición
-  const { uploadId } = req.params;
-  const { chunkIndex } = req.body;
-  console.log('Subida de chunk:', { uploadId, chunkIndex, fileSize: req.file?.size });
+// Política de tipos de archivo, para que el cliente rechace lo que el servidor no admitiría (antes de /:uploadId)
+app.get('/api/uploads/policy', (_req, res) => {
+  res.json(FILE_POLICY);
+});
 
-  // Verifica que se haya recibido un archivo
-  if (!req.file) return res.status(400).json({ error: 'Falta el archivo chunk' });
+// Eventos de las sesiones del usuario como Server-Sent Events (antes de /:uploadId para no confundirse con un ID)
+app.get('/api/uploads/events', streamEvents(uploadEvents, requestUser));
 
-  // Verifica que el directorio temporal exista
-  const dir = path.join(TEMP_ROOT, uploadId);
-  if (!fs.existsSync(dir)) return res.status(404).json({ error: 'uploadId no encontrado' });
+// Devuelve el estado de una sesión: chunks recibidos, bytes almacenados y estado
+app.get('/api/uploads/:uploadId', async (req, res) => {
+  const { uploadId } = req.params;
+  const session = ownedSession(req, res);
+  if (!session) return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  if (rejectExpired(session, res)) return;
 
-  // Guarda el chunk en el disco con el índice correspondiente
-  const idx = Number(chunkIndex);
-  const partPath = path.join(dir, `part_${idx}`);
-  fs.writeFileSync(partPath, req.file.buffer);
-  console.log('Chunk almacenado:', partPath);
+  // Los bytes recibidos se calculan a partir de las partes presentes en el almacenamiento
+  let receivedBytes = 0;
+  try {
+    const received = new Set(session.receivedChunks);
+    for (const part of await storage.listParts(session)) {
+      if (received.has(part.index)) receivedBytes += part.size;
+    }
+  } catch (error) {
+    return sendError(res, error);
+  }
 
-  // Responde confirmando el almacenamiento
-  return res.json({ ok: true, stored: partPath });
+  res.json({
+    uploadId,
+    state: session.state,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    mimeType: session.mimeType,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: session.receivedChunks,
+    receivedBytes,
+    ...(session.partLimits && {
+      minChunkSize: session.partLimits.minBytes,
+      maxChunkSize: session.partLimits.maxBytes,
+      parts: session.receivedChunks.map(chunkIndex => ({ chunkIndex, ...partRange(session, chunkIndex)! })),
+    }),
+    result: session.result,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    expiresAt: session.expiresAt,
+  });
 });
 
-// Ensambla los chunks recibidos en un solo archivo final y limpia los temporales
-app.post('/api/uploads/:uploadId/complete', (req, res) => {
-  console.log('Solicitud de completado:', { uploadId: req.params.uploadId, body: req.body });
+/**
+ * Marca una sesión abierta como abortada y borra sus temporales
+ *
+ * @param session - Sesión a descartar
+ */
+async function abortSession(session: UploadSession) {
+  // Se marca antes de borrar para que no se acepten más chunks durante la limpieza
+  sessions.update(session.uploadId, { state: 'aborted', receivedChunks: [], chunkHashes: {} });
+  try {
+    await storage.abort(session);
+    if (session.tus) await tusTails.remove(session.uploadId);
+    logger.info('Temporales eliminados', { uploadId: session.uploadId });
+  } catch (error) {
+    logger.error('Error eliminando temporales', { uploadId: session.uploadId, error });
+  }
+}
+
+// Cancela una subida: borra los chunks temporales y marca la sesión como abortada
+app.delete('/api/uploads/:uploadId', async (req, res) => {
   const { uploadId } = req.params;
-  const { totalChunks, fileName } = req.body;
+  const session = ownedSession(req, res);
+  logger.info('Cancelación de subida', { state: session?.state });
+  if (!session) return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  if (rejectExpired(session, res)) return;
 
-  // Verifica que se reciban los parámetros necesarios
-  if (!fileName || !totalChunks) {
-    console.error('Falta fileName o totalChunks');
-    return res.status(400).json({ error: 'Se requieren fileName y totalChunks' });
+  // Repetir la cancelación es idempotente
+  if (session.state === 'aborted') return res.json({ ok: true, uploadId, state: session.state });
+  if (session.state !== 'open') {
+    return sendError(res, new ApiError(409, 'SESSION_NOT_OPEN', `No se puede cancelar una sesión en estado ${session.state}`, { state: session.state }));
   }
 
-  // Verifica que el directorio temporal exista
-  const dir = path.join(TEMP_ROOT, uploadId);
-  if (!fs.existsSync(dir)) {
-    console.error('Directorio temporal de subida no encontrado:', dir);
-    return res.status(404).json({ error: 'uploadId no encontrado' });
+  await abortSession(session);
+  res.json({ ok: true, uploadId, state: 'aborted' });
+});
+
+// Recibe un chunk como multipart/form-data y lo escribe en disco en streaming
+app.post('/api/uploads/:uploadId/chunk', requireOpenSession, (req, res) => {
+  const endChunk = chunkDuration.startTimer();
+  // multer llama al callback desde los eventos del stream: se enlaza al contexto de la petición para el log
+  upload.single('chunk')(req, res, AsyncResource.bind(async (err: unknown) => {
+    if (err) return sendError(res, err instanceof multer.MulterError ? new ApiError(400, err.code, err.message) : err);
+
+    // Extrae parámetros de la petición
+    const { uploadId } = req.params;
+    const { chunkIndex, chunkHash, chunkOffset } = req.body;
+    logger.debug('Subida de chunk', { chunkIndex, chunkOffset, size: req.file?.size, chunkHash });
+
+    // Verifica que se haya recibido un archivo
+    if (!req.file) return sendError(res, new ApiError(400, 'MISSING_CHUNK_FILE', 'Falta el archivo chunk'));
+
+    try {
+      const { part } = req.file as Express.Multer.File & { part: PendingPart };
+      const stored = await storePart(res.locals.session, chunkIndex, part, chunkHash && String(chunkHash), chunkOffset);
+      endChunk({ protocol: 'chunks' });
+
+      // Responde confirmando el almacenamiento
+      res.json({ ok: true, chunkIndex: stored, size: part.size, hash: part.hash });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }));
+});
+
+// Recibe un chunk como cuerpo binario (application/octet-stream), sin FormData
+app.put('/api/uploads/:uploadId/chunks/:chunkIndex', requireOpenSession, async (req, res) => {
+  const { uploadId, chunkIndex } = req.params;
+  const chunkHash = req.get('X-Chunk-Sha256');
+  const chunkOffset = req.get('X-Chunk-Offset');
+  const session: UploadSession = res.locals.session;
+  const endChunk = chunkDuration.startTimer();
+  logger.debug('Subida de chunk (binario)', { chunkIndex, chunkOffset, contentLength: req.get('Content-Length'), chunkHash });
+
+  try {
+    // Con el índice (y el offset, en partes variables) se conoce el máximo antes de leer el cuerpo
+    parseChunkIndex(session, chunkIndex);
+    const maxBytes = session.partLimits
+      ? maxPartBytes(session, parsePartOffset(session, chunkOffset))
+      : expectedChunkBytes(session, Number(chunkIndex));
+    if (!req.is('application/octet-stream')) {
+      throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Se espera Content-Type application/octet-stream');
+    }
+    // Rechaza antes de leer el cuerpo si el tamaño declarado ya excede el límite
+    if (Number(req.get('Content-Length')) > maxBytes) {
+      throw new ApiError(413, 'CHUNK_TOO_LARGE', `El chunk supera el máximo de ${maxBytes} bytes`);
+    }
+
+    const part = await storage.writePart(session, req, maxBytes);
+    const stored = await storePart(session, chunkIndex, part, chunkHash, chunkOffset);
+    endChunk({ protocol: 'chunks' });
+    res.json({ ok: true, chunkIndex: stored, size: part.size, hash: part.hash });
+  } catch (error) {
+    // Drena el cuerpo pendiente para poder responder al cliente
+    req.resume();
+    sendError(res, error);
   }
+});
+
+/**
+ * Lanza el ensamblado del archivo final en segundo plano
+ *
+ * Reserva el nombre según la política de colisiones, comprueba que estén
+ * todas las partes y registra el trabajo en `assemblyJobs`; al terminar, el
+ * archivo queda en el catálogo y la sesión como completa. Lo comparten
+ * `/complete` y la última escritura de una subida tus.
+ *
+ * @param session - Sesión abierta con todos sus chunks
+ * @param fileName - Nombre original del archivo
+ * @param fileHash - SHA-256 del archivo completo declarado por el cliente (opcional)
+ * @returns Trabajo de ensamblado recién creado
+ */
+async function startAssembly(session: UploadSession, fileName: string, fileHash?: string) {
+  const { uploadId } = session;
 
   // Sanitiza el nombre del archivo para evitar problemas de seguridad
-  const sanitizedFileName = fileName.replace(/[<>:"/\\|?*\[\]]/g, '_');
-  console.log('Nombre de archivo original:', fileName);
-  console.log('Nombre de archivo sanitizado:', sanitizedFileName);
+  const sanitizedFileName = sanitizeFileName(fileName);
+  logger.debug('Nombre de archivo sanitizado', { fileName, sanitizedFileName });
+
+  // Resuelve colisiones con otros archivos del usuario en la misma ruta lógica
+  const reservation = catalog.reserveName(session.owner, session.relativeDir, sanitizedFileName, COLLISION_POLICY);
+  if (!reservation) {
+    const relativePath = session.relativeDir ? `${session.relativeDir}/${sanitizedFileName}` : sanitizedFileName;
+    throw new ApiError(409, 'FILE_EXISTS', `Ya existe un archivo en ${relativePath}`, { relativePath });
+  }
+  const { fileName: finalName, relativePath, version } = reservation;
 
-  // Define la ruta de salida del archivo final
-  const outPath = path.join(UPLOAD_ROOT, sanitizedFileName);
-  console.log('Creando archivo final:', outPath);
+  // Se marca antes de consultar el almacenamiento para que un /complete repetido no lance otro ensamblado
+  sessions.update(uploadId, { state: 'assembling' });
 
+  // Verifica que estén todas las partes antes de lanzar el trabajo
   try {
-  // Verifica que el directorio de uploads existe y tiene permisos
-  const stats = fs.statSync(UPLOAD_ROOT);
-  console.log('Estado del directorio:', { esDirectorio: stats.isDirectory() });
-
-  // Crea el archivo vacío antes de ensamblar los chunks
-  fs.writeFileSync(outPath, '');
-  console.log('Archivo vacío creado:', outPath);
-
-    // Lee y concatena cada chunk en orden
-    for (let i = 0; i < Number(totalChunks); i++) {
-      const partPath = path.join(dir, `part_${i}`);
-      if (!fs.existsSync(partPath)) {
-        // Si falta algún chunk, responde con error
-        console.error('Falta chunk:', i, 'en', partPath);
-        return res.status(400).json({ error: `Falta chunk ${i}` });
+    // Con partes variables deben cubrir el archivo sin huecos y su número pasa a ser el definitivo
+    if (session.partLimits) {
+      const covered = coverage(session);
+      if ('chunkIndex' in covered) {
+        logger.warn('Falta parte', { ...covered });
+        throw new ApiError(400, 'MISSING_CHUNK', `Falta la parte ${covered.chunkIndex} (desde el byte ${covered.offset})`, covered);
       }
+      sessions.update(uploadId, { totalChunks: covered.totalChunks });
+    }
 
-      console.log('Leyendo chunk:', i);
-      const chunkData = fs.readFileSync(partPath);
+    const present = new Set((await storage.listParts(session)).map(p => p.index));
+    for (let i = 0; i < session.totalChunks; i++) {
+      if (!present.has(i)) {
+        logger.warn('Falta chunk', { chunkIndex: i });
+        throw new ApiError(400, 'MISSING_CHUNK', `Falta chunk ${i}`, { chunkIndex: i });
+      }
+    }
+  } catch (error) {
+    catalog.release(reservation);
+    sessions.update(uploadId, { state: 'open' });
+    throw error;
+  }
+  const total = session.totalChunks;
 
-      // Agrega el chunk al archivo final
-      fs.appendFileSync(outPath, chunkData);
+  // El archivo se guarda con un ID generado por el servidor: el nombre del cliente nunca llega al almacenamiento
+  const { fileId } = session;
+  const outPath = storage.locate(fileId);
+  logger.info('Creando archivo final', { fileId, relativePath, version, totalChunks: total });
+
+  // Registra el trabajo de ensamblado
+  const job: AssemblyJob = {
+    uploadId,
+    state: 'running',
+    totalChunks: total,
+    processedChunks: 0,
+    processedBytes: 0,
+    startedAt: new Date().toISOString(),
+  };
+  // Los trabajos de sesiones ya borradas por el barrido no se volverán a consultar
+  for (const id of assemblyJobs.keys()) {
+    if (!sessions.get(id)) assemblyJobs.delete(id);
+  }
+  assemblyJobs.set(uploadId, job);
+  const endAssembly = assemblyDuration.startTimer();
+  uploadEvents.publish(session, 'assembling', { totalChunks: total, processedBytes: 0, percent: 0 });
 
+  // Ensambla con streams sin bloquear el event loop
+  let publishedPercent = 0;
+  storage.assemble(session, {
+    chunkHashes: session.chunkHashes || {},
+    fileHash,
+    onProgress: (processedChunks, processedBytes) => {
+      job.processedChunks = processedChunks;
+      job.processedBytes = processedBytes;
       // Log de progreso cada 50 chunks
-      if (i % 50 === 0) {
-        console.log(`Progreso: ${i}/${totalChunks} chunks (${Math.round(i/totalChunks*100)}%)`);
+      if (processedChunks % 50 === 0) {
+        logger.debug('Progreso del ensamblado', { processedChunks, totalChunks: total, percent: Math.round(processedChunks / total * 100) });
+      }
+      // Un evento por cada punto porcentual, no por cada parte
+      const percent = Math.floor(processedBytes / session.fileSize * 100);
+      if (percent > publishedPercent) {
+        publishedPercent = percent;
+        uploadEvents.publish(session, 'assembling', { totalChunks: total, processedBytes, percent });
+      }
+    },
+  }).then(({ sha256 }) => {
+    // Registra el archivo en el catálogo con sus metadatos
+    const record = catalog.add({
+      fileId,
+      owner: session.owner,
+      uploadId,
+      originalFileName: fileName,
+      fileName: finalName,
+      relativeDir: session.relativeDir,
+      relativePath,
+      version,
+      size: session.fileSize,
+      mimeType: session.mimeType,
+      sha256,
+      processing: processing.initialState(),
+    });
+    catalog.release(reservation);
+    processing.enqueue(fileId);
+
+    // Marca la sesión como completada para que no vuelva a ofrecerse como reanudable
+    const result = {
+      fileId, filePath: outPath, originalFileName: fileName, sanitizedFileName: finalName, relativePath, version, sha256,
+    };
+    sessions.update(uploadId, { state: 'complete', result });
+    Object.assign(job, { state: 'done', result, finishedAt: new Date().toISOString() });
+    uploadEvents.publish(session, 'completed', { result });
+    webhooks.dispatch('upload.completed', { file: fileData(record) });
+    endAssembly({ result: 'done' });
+    logger.info('Archivo finalizado correctamente', { fileId, relativePath, size: session.fileSize, sha256 });
+  }).catch(async error => {
+    // Manejo de errores durante el ensamblado
+    logger.error('Error al crear el archivo', { fileId, error });
+    catalog.release(reservation);
+    await storage.deleteFile(fileId).catch(cleanupError => logger.error('Error en limpieza', { error: cleanupError }));
+    if (error instanceof AssemblyError && error.code === 'CHUNK_CORRUPTED' && error.chunkIndex !== undefined) {
+      await storage.deletePart(session, error.chunkIndex).catch(cleanupError => logger.error('Error en limpieza', { error: cleanupError }));
+      sessions.dropChunk(uploadId, error.chunkIndex);
+    }
+    let reopened: SessionState = 'open';
+    if (error instanceof AssemblyError && error.released) {
+      // El almacenamiento ya consumió las partes: se prepara de nuevo y el cliente reenvía todos los chunks
+      try {
+        const storageRef = await storage.createSession(session);
+        sessions.update(uploadId, { storageRef, receivedChunks: [], chunkHashes: {}, partRanges: undefined });
+      } catch (resetError) {
+        logger.error('No se pudo reiniciar la sesión', { error: resetError });
+        reopened = 'aborted';
       }
     }
+    sessions.update(uploadId, { state: reopened });
+    Object.assign(job, {
+      state: 'failed',
+      error: error instanceof AssemblyError ? error.message : String(error),
+      code: error instanceof AssemblyError ? error.code : 'ASSEMBLY_FAILED',
+      chunkIndex: error instanceof AssemblyError ? error.chunkIndex : undefined,
+      finishedAt: new Date().toISOString(),
+    });
+    endAssembly({ result: 'failed' });
+    failures.inc({ code: job.code! });
+    uploadEvents.publish(session, 'failed', { error: job.error, code: job.code, chunkIndex: job.chunkIndex });
+    webhooks.dispatch('upload.failed', { upload: uploadData(session), error: job.error, code: job.code, chunkIndex: job.chunkIndex });
+  });
 
-    console.log('Archivo ensamblado correctamente');
+  return job;
+}
 
-    // Limpia los archivos temporales usados para la subida
-    try {
-      fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
-      fs.rmdirSync(dir);
-      console.log('Limpieza completada');
-    } catch (cleanupError) {
-      console.error('Error en limpieza:', cleanupError);
+// Inicia el ensamblado en segundo plano y responde 202 con el recurso de estado
+app.post('/api/uploads/:uploadId/complete', async (req, res) => {
+  const { uploadId } = req.params;
+  const { totalChunks, fileHash } = req.body;
+  logger.info('Solicitud de completado', { totalChunks, fileHash });
+  const statusUrl = `/api/uploads/${uploadId}/assembly`;
+
+  // Verifica que la sesión exista
+  const session = ownedSession(req, res);
+  if (session && rejectExpired(session, res)) return;
+  if (!session) {
+    return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  }
+
+  // El número de chunks lo fija el contrato de la sesión, no el cliente (con partes variables, al ensamblar)
+  if (totalChunks !== undefined && !session.partLimits && Number(totalChunks) !== session.totalChunks) {
+    return sendError(res, new ApiError(400, 'TOTAL_CHUNKS_MISMATCH', `La sesión espera ${session.totalChunks} chunks`, { totalChunks: session.totalChunks }));
+  }
+  const fileName = String(req.body.fileName || session.fileName);
+
+  // Repetir /complete es idempotente: devuelve el ensamblado en curso o el resultado final
+  if (session.state === 'assembling') {
+    return res.status(202).location(statusUrl).json({ ok: true, state: 'running', statusUrl });
+  }
+  if (session.state === 'complete') {
+    return res.json({ ok: true, ...session.result });
+  }
+  if (session.state !== 'open') {
+    return sendError(res, new ApiError(409, 'SESSION_NOT_OPEN', `La sesión está en estado ${session.state}`, { state: session.state }));
+  }
+
+  try {
+    await startAssembly(session, fileName, fileHash ? String(fileHash) : undefined);
+  } catch (error) {
+    return sendError(res, error);
+  }
+
+  res.status(202).location(statusUrl).json({ ok: true, state: 'running', statusUrl });
+});
+
+// Estado del trabajo de ensamblado de una subida (el cliente lo consulta por polling)
+app.get('/api/uploads/:uploadId/assembly', (req, res) => {
+  const { uploadId } = req.params;
+  const session = ownedSession(req, res);
+  const job = session && assemblyJobs.get(uploadId);
+  if (job) return res.json(job);
+
+  // Tras un reinicio el trabajo ya no está en memoria: se responde a partir de la sesión
+  if (session?.state === 'complete') {
+    return res.json({ uploadId, state: 'done', result: session.result });
+  }
+  sendError(res, new ApiError(404, 'ASSEMBLY_NOT_FOUND', 'No hay ensamblado para este uploadId'));
+});
+
+/**
+ * Busca una subida tus del usuario autenticado
+ *
+ * Las sesiones abortadas se tratan como inexistentes, como exige la extensión termination.
+ */
+function ownedTusSession(req: express.Request, res: express.Response) {
+  const session = ownedSession(req, res);
+  return session?.tus && session.state !== 'aborted' ? session : undefined;
+}
+
+/**
+ * Fecha de caducidad en el formato HTTP que usa `Upload-Expires`
+ */
+function uploadExpires(session: UploadSession) {
+  return new Date(session.expiresAt).toUTCString();
+}
+
+// Subidas tus en las que hay un PATCH escribiendo (tus no admite escrituras concurrentes)
+const tusWriting = new Set<string>();
+
+// tus (creation): crea la subida con Upload-Length y Upload-Metadata (filename, filetype, relativePath)
+app.post('/api/tus', async (req, res) => {
+  logger.info('Creación tus', { length: req.get('Upload-Length'), metadata: req.get('Upload-Metadata') });
+  try {
+    if (req.get('Upload-Defer-Length') !== undefined) {
+      throw new ApiError(400, 'DEFER_LENGTH_UNSUPPORTED', 'Se requiere Upload-Length: Upload-Defer-Length no está soportado');
     }
+    const metadataHeader = req.get('Upload-Metadata');
+    const metadata = parseMetadata(metadataHeader);
+    const fileName = metadata.filename ?? metadata.name;
+    const size = Number(req.get('Upload-Length'));
+    const declaredType = metadata.filetype || metadata.type || 'application/octet-stream';
+    validateDeclaredFile(fileName, size, declaredType);
 
-    // Responde con éxito y detalles del archivo final
-    console.log('Archivo finalizado correctamente:', outPath);
-    res.json({ ok: true, filePath: outPath, originalFileName: fileName, sanitizedFileName });
+    const session = await openSession(requestUser(res), {
+      fileName,
+      fileSize: size,
+      mimeType: declaredType,
+      relativePath: metadata.relativePath || undefined,
+      fingerprint: metadata.fingerprint || 'tus',
+      tus: { metadata: metadataHeader },
+    });
 
+    res.status(201)
+      .location(`/api/tus/${session.uploadId}`)
+      .set('Upload-Expires', uploadExpires(session))
+      .end();
   } catch (error) {
-    // Manejo de errores durante el ensamblado
-    console.error('Error al crear el archivo:', error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
+  }
+});
+
+// tus: offset actual de la subida
+app.head('/api/tus/:uploadId', async (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  const session = ownedTusSession(req, res);
+  if (!session) return res.status(404).end();
+  if (isExpired(session)) return res.status(410).end();
+
+  const offset = session.state === 'open' ? await tusTails.offsetOf(session) : session.fileSize;
+  res.set({ 'Upload-Offset': String(offset), 'Upload-Length': String(session.fileSize) });
+  if (session.tus?.metadata) res.set('Upload-Metadata', session.tus.metadata);
+  if (session.state === 'open') res.set('Upload-Expires', uploadExpires(session));
+  res.status(200).end();
+});
+
+// tus: escribe bytes a partir de Upload-Offset; al llegar al final lanza el ensamblado
+app.patch('/api/tus/:uploadId', async (req, res) => {
+  const { uploadId } = req.params;
+  const session = ownedTusSession(req, res);
+  logger.debug('PATCH tus', { offset: req.get('Upload-Offset'), contentLength: req.get('Content-Length') });
+  if (!session) {
+    req.resume();
+    return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  }
+  if (rejectExpired(session, res)) return req.resume();
+
+  let locked = false;
+  try {
+    if (!req.is('application/offset+octet-stream')) {
+      throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Se espera Content-Type application/offset+octet-stream');
+    }
+    if (session.state !== 'open') {
+      throw new ApiError(409, 'SESSION_NOT_OPEN', 'La sesión ya no admite datos', { state: session.state });
+    }
+    if (tusWriting.has(uploadId)) {
+      throw new ApiError(409, 'UPLOAD_LOCKED', 'Ya hay otra petición escribiendo en esta subida');
+    }
+    tusWriting.add(uploadId);
+    locked = true;
+
+    const checksum = parseChecksum(req.get('Upload-Checksum'));
+    const offset = await tusTails.offsetOf(session);
+    if (Number(req.get('Upload-Offset')) !== offset) {
+      res.set('Upload-Offset', String(offset));
+      throw new ApiError(409, 'OFFSET_MISMATCH', `El offset actual de la subida es ${offset}`, { uploadOffset: offset });
+    }
+    if (Number(req.get('Content-Length')) > session.fileSize - offset) {
+      throw new ApiError(413, 'UPLOAD_LENGTH_EXCEEDED', `El cuerpo supera Upload-Length (${session.fileSize} bytes)`);
+    }
+
+    const endChunk = chunkDuration.startTimer();
+    const newOffset = await writeTusBody({
+      session,
+      storage,
+      tails: tusTails,
+      source: req,
+      checksum,
+      store: (chunkIndex, part) => storePart(session, chunkIndex, part),
+    });
+    endChunk({ protocol: 'tus' });
+    // Cada PATCH cuenta como actividad aunque no llegue a completar un chunk
+    sessions.touch(uploadId);
+    res.set({ 'Upload-Offset': String(newOffset), 'Upload-Expires': uploadExpires(session) });
+
+    // Con el último byte se lanza el mismo ensamblado que /complete
+    if (newOffset === session.fileSize) {
+      await tusTails.remove(uploadId);
+      await startAssembly(session, session.fileName);
+    }
+    res.status(204).end();
+  } catch (error) {
+    // Drena el cuerpo pendiente para poder responder al cliente
+    req.resume();
+    if (error instanceof ApiError && error.status === 460) res.statusMessage = 'Checksum Mismatch';
+    sendError(res, error);
+  } finally {
+    if (locked) tusWriting.delete(uploadId);
+  }
+});
+
+// tus (termination): descarta la subida y sus temporales
+app.delete('/api/tus/:uploadId', async (req, res) => {
+  const session = ownedTusSession(req, res);
+  logger.info('Terminación tus', { state: session?.state });
+  if (!session) return sendError(res, new ApiError(404, 'SESSION_NOT_FOUND', 'uploadId no encontrado'));
+  if (session.state !== 'open' && session.state !== 'expired') {
+    return sendError(res, new ApiError(409, 'SESSION_NOT_OPEN', `No se puede terminar una subida en estado ${session.state}`, { state: session.state }));
+  }
+  await abortSession(session);
+  res.status(204).end();
+});
+
+/**
+ * Busca un archivo del catálogo que pertenezca al usuario autenticado
+ *
+ * Igual que con las sesiones, los archivos ajenos se tratan como inexistentes.
+ */
+function ownedFile(req: express.Request, res: express.Response) {
+  const record = catalog.get(req.params.fileId);
+  return record && record.owner === requestUser(res) ? record : undefined;
+}
+
+/**
+ * Valida los parámetros de listado de `/api/files`
+ *
+ * @returns Filtros, orden y página normalizados
+ */
+function parseFileQuery(query: express.Request['query']): FileQuery {
+  const text = (name: string) => (typeof query[name] === 'string' ? query[name] as string : undefined);
+  const int = (name: string, fallback: number, max: number) => {
+    const raw = text(name);
+    const value = raw === undefined ? fallback : Number(raw);
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      throw new ApiError(400, 'INVALID_QUERY', `${name} debe ser un entero entre 1 y ${max}`);
+    }
+    return value;
+  };
+
+  const sort = text('sort') ?? 'createdAt';
+  if (!['name', 'size', 'createdAt'].includes(sort)) {
+    throw new ApiError(400, 'INVALID_QUERY', 'sort debe ser name, size o createdAt');
+  }
+  const order = text('order') ?? (sort === 'name' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ApiError(400, 'INVALID_QUERY', 'order debe ser asc o desc');
+  }
+
+  return {
+    q: text('q') || undefined,
+    mimeType: text('mimeType') || undefined,
+    dir: text('dir'),
+    sort: sort as FileSortField,
+    order,
+    page: int('page', 1, Number.MAX_SAFE_INTEGER),
+    pageSize: int('pageSize', 50, 200),
+  };
+}
+
+/**
+ * Metadatos públicos de un archivo del catálogo
+ *
+ * Incluye la URL de la miniatura si el procesador de miniaturas la generó.
+ */
+function fileInfo(record: FileRecord) {
+  return {
+    ...record,
+    contentUrl: `/api/files/${record.fileId}/content`,
+    ...(record.processing?.results.thumbnail?.status === 'done' && { thumbnailUrl: `/api/files/${record.fileId}/thumbnail` }),
+  };
+}
+
+/**
+ * Error si el contenido de un archivo aún no puede servirse
+ *
+ * Mientras se procesa (p. ej. el antivirus no ha terminado) o si quedó en
+ * cuarentena, el contenido no se entrega; los registros anteriores al
+ * procesamiento no tienen estado y se sirven siempre.
+ */
+function unavailableContent(record: FileRecord) {
+  const state = record.processing?.state;
+  if (state === 'quarantined') {
+    return new ApiError(403, 'FILE_QUARANTINED', 'El archivo está en cuarentena', { reason: record.processing?.reason });
+  }
+  if (state === 'pending' || state === 'processing') {
+    return new ApiError(409, 'FILE_PROCESSING', 'El archivo se está procesando, inténtalo en unos instantes', { current: record.processing?.current });
+  }
+  return undefined;
+}
+
+// Lista los archivos del usuario con paginación, filtros y orden
+app.get('/api/files', (req, res) => {
+  try {
+    const query = parseFileQuery(req.query);
+    const { items, total } = catalog.search(requestUser(res), query);
+    res.json({ items: items.map(fileInfo), total, page: query.page, pageSize: query.pageSize });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Metadatos de un archivo
+app.get('/api/files/:fileId', (req, res) => {
+  const record = ownedFile(req, res);
+  if (!record) return sendError(res, new ApiError(404, 'FILE_NOT_FOUND', 'Archivo no encontrado'));
+  res.json(fileInfo(record));
+});
+
+// Borra un archivo: su registro en el catálogo y su contenido en el almacenamiento
+app.delete('/api/files/:fileId', async (req, res) => {
+  const record = ownedFile(req, res);
+  logger.info('Borrado de archivo', { relativePath: record?.relativePath });
+  if (!record) return sendError(res, new ApiError(404, 'FILE_NOT_FOUND', 'Archivo no encontrado'));
+
+  catalog.remove(record.fileId);
+  try {
+    await storage.deleteFile(record.fileId);
+    await fs.promises.rm(thumbnailPath(THUMBNAILS_ROOT, record.fileId), { force: true });
+  } catch (error) {
+    logger.error('Error eliminando el contenido del archivo', { error });
+  }
+  res.json({ ok: true, fileId: record.fileId });
+});
+
+// Miniatura JPEG de una imagen, si se generó al procesarla
+app.get('/api/files/:fileId/thumbnail', (req, res) => {
+  const record = ownedFile(req, res);
+  if (!record) return sendError(res, new ApiError(404, 'FILE_NOT_FOUND', 'Archivo no encontrado'));
+  const unavailable = unavailableContent(record);
+  if (unavailable) return sendError(res, unavailable);
+  if (record.processing?.results.thumbnail?.status !== 'done') {
+    return sendError(res, new ApiError(404, 'THUMBNAIL_NOT_FOUND', 'El archivo no tiene miniatura'));
+  }
+
+  res.set('Cache-Control', 'private, max-age=3600');
+  res.sendFile(thumbnailPath(THUMBNAILS_ROOT, record.fileId), error => {
+    if (error && !res.headersSent) sendError(res, new ApiError(404, 'THUMBNAIL_NOT_FOUND', 'La miniatura no está disponible'));
+  });
+});
+
+// Descarga el contenido con soporte de Range (reproducción y descargas reanudables) y ETag
+app.get('/api/files/:fileId/content', async (req, res) => {
+  const record = ownedFile(req, res);
+  if (!record) return sendError(res, new ApiError(404, 'FILE_NOT_FOUND', 'Archivo no encontrado'));
+  const unavailable = unavailableContent(record);
+  if (unavailable) return sendError(res, unavailable);
+
+  // El ETag es el SHA-256 del contenido: sirve para If-None-Match e If-Range
+  res.set('ETag', `"${record.sha256}"`);
+  res.set('Cache-Control', 'private, no-cache');
+  res.set('Accept-Ranges', 'bytes');
+  if (req.query.download !== undefined) res.attachment(record.fileName);
+  res.type(record.mimeType);
+  if (req.fresh) return res.status(304).end();
+
+  // Solo se atiende un rango; con If-Range y un ETag distinto se envía el archivo completo
+  let range: ByteRange | undefined;
+  const ifRange = req.get('If-Range');
+  if (req.headers.range && (!ifRange || ifRange === res.get('ETag'))) {
+    const ranges = req.range(record.size, { combine: true });
+    if (ranges === -1) {
+      res.set('Content-Range', `bytes */${record.size}`);
+      return sendError(res, new ApiError(416, 'RANGE_NOT_SATISFIABLE', `El rango pedido está fuera del archivo (${record.size} bytes)`));
+    }
+    if (Array.isArray(ranges) && ranges.length === 1) range = ranges[0];
+  }
+
+  if (range) {
+    res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${record.size}`);
+  }
+  res.set('Content-Length', String(range ? range.end - range.start + 1 : record.size));
+  if (req.method === 'HEAD') return res.end();
+
+  try {
+    const content = await storage.read(record.fileId, range);
+    pipeline(content, res, error => {
+      if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') logger.error('Error enviando el archivo', { error });
+    });
+  } catch (error) {
+    logger.error('Error leyendo el archivo', { error });
+    res.removeHeader('Content-Length');
+    res.removeHeader('Content-Range');
+    sendError(res, new ApiError(404, 'FILE_NOT_FOUND', 'El contenido del archivo no está disponible'));
   }
 });
+
+// Rutas de administración: solo para los usuarios de ADMIN_USERS
+app.use('/api/admin', requireAdmin(ADMIN_USERS));
+
+// Registro de entregas de webhooks, filtrable por estado y tipo
+app.get('/api/admin/webhooks/deliveries', (req, res) => {
+  const { status, type } = req.query;
+  if (status !== undefined && !['pending', 'delivered', 'failed'].includes(String(status))) {
+    return sendError(res, new ApiError(400, 'INVALID_QUERY', 'status debe ser pending, delivered o failed'));
+  }
+  if (type !== undefined && !WEBHOOK_EVENT_TYPES.includes(String(type) as WebhookEventType)) {
+    return sendError(res, new ApiError(400, 'INVALID_QUERY', `type debe ser uno de: ${WEBHOOK_EVENT_TYPES.join(', ')}`));
+  }
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+  const items = webhooks.list({ status: status as DeliveryStatus | undefined, type: type as WebhookEventType | undefined });
+  res.json({ items: items.slice(0, limit), total: items.length });
+});
+
+app.get('/api/admin/webhooks/deliveries/:deliveryId', (req, res) => {
+  const delivery = webhooks.get(req.params.deliveryId);
+  if (!delivery) return sendError(res, new ApiError(404, 'DELIVERY_NOT_FOUND', 'Entrega no encontrada'));
+  res.json(delivery);
+});
+
+// Reenvía una entrega (fallida o ya entregada) con una ronda nueva de intentos
+app.post('/api/admin/webhooks/deliveries/:deliveryId/replay', (req, res) => {
+  const delivery = webhooks.get(req.params.deliveryId);
+  if (!delivery) return sendError(res, new ApiError(404, 'DELIVERY_NOT_FOUND', 'Entrega no encontrada'));
+  if (delivery.status === 'pending') {
+    return sendError(res, new ApiError(409, 'DELIVERY_PENDING', 'La entrega aún está en curso', { nextAttemptAt: delivery.nextAttemptAt }));
+  }
+  res.status(202).json(webhooks.replay(delivery.deliveryId));
+});
+
+// Reenvía todas las entregas fallidas (p. ej. cuando el destino vuelve a estar disponible)
+app.post('/api/admin/webhooks/replay', (req, res) => {
+  const failed = webhooks.list({ status: 'failed' });
+  failed.forEach(delivery => webhooks.replay(delivery.deliveryId));
+  res.status(202).json({ replayed: failed.length, deliveryIds: failed.map(d => d.deliveryId) });
+});
+
+// Directorios en los que escribe el servidor (los de chunks y archivos finales solo con almacenamiento local)
+const workDirs: Record<string, string> = {
+  ...(storage.name === 'local' && { uploads: UPLOAD_ROOT }),
+  temp: TEMP_ROOT,
+  tus: TUS_TAILS_ROOT,
+  sessions: SESSIONS_ROOT,
+  files: FILES_ROOT,
+};
+
+// Métricas en formato Prometheus (fuera de /api: sin token)
+app.get('/metrics', async (_req, res) => {
+  try {
+    res.type(MetricsRegistry.CONTENT_TYPE).send(await metrics.render());
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Liveness: los directorios de trabajo existen y tienen permiso de escritura
+app.get('/healthz', async (_req, res) => {
+  const report = await checkDirectories(workDirs);
+  res.status(report.status === 'ok' ? 200 : 503).json(report);
+});
+
+// Readiness: además se puede escribir de verdad en ellos (disco no lleno ni en solo lectura)
+app.get('/readyz', async (_req, res) => {
+  const report = await checkDirectories(workDirs, true);
+  if (report.status !== 'ok') logger.warn('El servidor no está listo', { checks: report.checks });
+  res.status(report.status === 'ok' ? 200 : 503).json(report);
+});
+
 app.get('/', (req, res) => {
   res.send('<h2>Servidor de uploads activo. Usa las rutas /api/uploads/*</h2>');
 });
 
 const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => console.log(`Uploader server on http://localhost:${PORT}`));
+app.listen(PORT, () => logger.info('Servidor de uploads escuchando', { port: Number(PORT) }));
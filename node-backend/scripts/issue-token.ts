@@ -0,0 +1,33 @@
+import fs from 'fs';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { JWT_AUDIENCE, JWT_ISSUER, JWT_SECRET } from '../src/config';
+
+/**
+ * Emite un JWT de desarrollo firmado con la clave local
+ *
+ * Uso: `npm run token -- <usuario> [caducidad]` (p. ej. `npm run token -- ana 8h`).
+ * Firma con `JWT_PRIVATE_KEY_FILE` (algoritmo `JWT_ALGORITHM`, RS256 por
+ * defecto) o, si no existe, con `JWT_SECRET` (HS256).
+ */
+const [user, expiresIn = '12h'] = process.argv.slice(2);
+if (!user) {
+  console.error('Uso: npm run token -- <usuario> [caducidad]');
+  process.exit(1);
+}
+
+const privateKeyFile = process.env.JWT_PRIVATE_KEY_FILE;
+const key = privateKeyFile ? fs.readFileSync(privateKeyFile) : JWT_SECRET;
+if (!key) {
+  console.error('Configura JWT_SECRET o JWT_PRIVATE_KEY_FILE para firmar el token');
+  process.exit(1);
+}
+
+const algorithm = (privateKeyFile ? process.env.JWT_ALGORITHM || 'RS256' : 'HS256') as Algorithm;
+const token = jwt.sign({}, key, {
+  subject: user,
+  algorithm,
+  expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  ...(JWT_ISSUER && { issuer: JWT_ISSUER }),
+  ...(JWT_AUDIENCE && { audience: JWT_AUDIENCE }),
+});
+console.log(token);
@@ -0,0 +1,125 @@
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3_BUCKET, S3_ENDPOINT, S3_PREFIX, S3_REGION } from '../src/config';
+import { UploadSession } from '../src/sessions';
+import { S3Storage } from '../src/storage/s3';
+
+/**
+ * Prueba de ida y vuelta del adaptador S3 contra un bucket real
+ *
+ * Uso: `npm run s3-roundtrip` con `S3_BUCKET`, `S3_ENDPOINT` (p. ej. MinIO en
+ * http://localhost:9000) y las credenciales del SDK de AWS. Sube un archivo
+ * de dos partes (init → chunk → complete), descarta y reenvía una parte,
+ * comprueba el contenido y el SHA-256 del objeto final y aborta una segunda
+ * sesión. Borra lo que crea y termina con código 1 si algo falla.
+ */
+if (!S3_BUCKET) {
+  console.error('Configura S3_BUCKET (y S3_ENDPOINT para MinIO u otro servicio local)');
+  process.exit(1);
+}
+
+const MB = 1024 * 1024;
+const client = new S3Client({ region: S3_REGION, endpoint: S3_ENDPOINT, forcePathStyle: !!S3_ENDPOINT });
+// Directorio temporal propio: el adaptador vacía su directorio de partes pendientes al crearse
+const spoolRoot = fs.mkdtempSync(path.join(os.tmpdir(), 's3-roundtrip-'));
+const storage = new S3Storage(client, S3_BUCKET, spoolRoot, S3_PREFIX);
+
+// Sesión mínima con chunks de tamaño fijo
+function sessionFor(fileSize: number, chunkSize: number): UploadSession {
+  const now = new Date().toISOString();
+  return {
+    uploadId: crypto.randomUUID(),
+    fileName: 's3-roundtrip.bin',
+    relativeDir: '',
+    fileSize,
+    mimeType: 'application/octet-stream',
+    chunkSize,
+    totalChunks: Math.ceil(fileSize / chunkSize),
+    owner: 's3-roundtrip',
+    fingerprint: 's3-roundtrip',
+    fileId: crypto.randomUUID(),
+    receivedChunks: [],
+    chunkHashes: {},
+    state: 'open',
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now,
+  };
+}
+
+// Recibe y confirma un chunk como lo hace el servidor
+async function sendChunk(session: UploadSession, data: Buffer, chunkIndex: number) {
+  const chunk = data.subarray(chunkIndex * session.chunkSize, (chunkIndex + 1) * session.chunkSize);
+  const part = await storage.writePart(session, Readable.from([chunk]), chunk.length);
+  assert.equal(part.size, chunk.length, `tamaño recibido del chunk ${chunkIndex}`);
+  assert.equal(part.hash, crypto.createHash('sha256').update(chunk).digest('hex'), `hash del chunk ${chunkIndex}`);
+  await part.commit(chunkIndex);
+  session.chunkHashes[chunkIndex] = part.hash;
+}
+
+async function listedIndexes(session: UploadSession) {
+  return (await storage.listParts(session)).map(p => p.index);
+}
+
+async function readAll(fileId: string) {
+  const chunks: Buffer[] = [];
+  for await (const data of await storage.read(fileId)) chunks.push(data as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function main() {
+  // Dos partes: la primera con el mínimo de S3 y la última más pequeña
+  const data = crypto.randomBytes(storage.minPartSize + MB);
+  const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+  const session = sessionFor(data.length, storage.minPartSize);
+  let assembled = false;
+
+  try {
+    session.storageRef = await storage.createSession(session);
+    assert.ok(session.storageRef, 'createSession devuelve el ID del multipart upload');
+    console.log('init:', { bucket: S3_BUCKET, uploadId: session.storageRef });
+
+    for (let i = 0; i < session.totalChunks; i++) await sendChunk(session, data, i);
+    assert.deepEqual(await listedIndexes(session), [0, 1]);
+    console.log('chunks:', { parts: session.totalChunks });
+
+    // Una parte descartada deja de contar hasta que se reenvía
+    await storage.deletePart(session, 1);
+    assert.deepEqual(await listedIndexes(session), [0]);
+    await sendChunk(session, data, 1);
+    assert.deepEqual(await listedIndexes(session), [0, 1]);
+    console.log('deletePart y reenvío: correctos');
+
+    const result = await storage.assemble(session, { chunkHashes: session.chunkHashes, fileHash: sha256 });
+    assembled = true;
+    assert.equal(result.sha256, sha256, 'SHA-256 calculado al ensamblar');
+    const stored = await readAll(session.fileId);
+    assert.equal(stored.length, data.length, 'tamaño del objeto');
+    assert.ok(stored.equals(data), 'contenido del objeto');
+    assert.equal(crypto.createHash('sha256').update(stored).digest('hex'), sha256, 'SHA-256 del objeto');
+    console.log('complete:', { location: storage.locate(session.fileId), size: stored.length, sha256 });
+  } finally {
+    if (assembled) await storage.deleteFile(session.fileId);
+    else await storage.abort(session);
+  }
+
+  // Una sesión abortada no conserva partes
+  const aborted = sessionFor(MB, storage.minPartSize);
+  aborted.storageRef = await storage.createSession(aborted);
+  await sendChunk(aborted, crypto.randomBytes(MB), 0);
+  await storage.abort(aborted);
+  assert.deepEqual(await listedIndexes(aborted), [], 'partes tras abortar');
+  console.log('abort: sin partes');
+}
+
+main().then(() => {
+  console.log('Prueba S3 superada');
+}, error => {
+  console.error('Prueba S3 fallida:', error);
+  process.exitCode = 1;
+}).finally(() => fs.rmSync(spoolRoot, { recursive: true, force: true }));
@@ -0,0 +1,42 @@
+import http from 'http';
+import { WEBHOOK_SECRET } from '../src/config';
+import { verifySignature } from '../src/webhooks';
+
+/**
+ * Receptor local de webhooks para probar las notificaciones
+ *
+ * Uso: `npm run webhook-receiver -- [puerto] [fallos]` (p. ej. `npm run webhook-receiver -- 4000 2`)
+ * y en el servidor `WEBHOOK_URLS=http://localhost:4000/hooks`, con el mismo
+ * `WEBHOOK_SECRET` en los dos. Verifica la firma de cada petición (401 si no
+ * es válida), la muestra y responde 204. Las primeras `fallos` peticiones
+ * responden 503 para ver los reintentos.
+ */
+const [port = '4000', failures = '0'] = process.argv.slice(2);
+const secret = WEBHOOK_SECRET;
+if (!secret) {
+  console.error('Configura WEBHOOK_SECRET (el mismo que el servidor) para verificar las firmas');
+  process.exit(1);
+}
+
+let pendingFailures = Number(failures) || 0;
+http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const delivery = req.headers['x-webhook-delivery'];
+    if (!verifySignature(secret, req.headers['x-webhook-signature'] as string | undefined, body)) {
+      console.warn('❌ Firma no válida:', { delivery });
+      res.writeHead(401).end('firma no válida');
+      return;
+    }
+    if (pendingFailures > 0) {
+      pendingFailures--;
+      console.log(`⚠️ Fallo simulado (quedan ${pendingFailures}):`, { delivery, event: req.headers['x-webhook-event'] });
+      res.writeHead(503).end('fallo simulado');
+      return;
+    }
+    console.log('📨 Webhook recibido:', { delivery, ...JSON.parse(body) });
+    res.writeHead(204).end();
+  });
+}).listen(Number(port), () => console.log(`Receptor de webhooks en http://localhost:${port}`));
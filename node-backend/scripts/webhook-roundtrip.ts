@@ -0,0 +1,128 @@
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { WebhookDelivery, WebhookDispatcher, signPayload, verifySignature } from '../src/webhooks';
+
+/**
+ * Prueba de ida y vuelta de los webhooks contra un receptor HTTP local
+ *
+ * Uso: `npm run webhook-roundtrip`. Levanta un receptor en un puerto libre
+ * cuya primera respuesta es 503 y envía una notificación con un
+ * WebhookDispatcher propio (registro en un directorio temporal y reintentos
+ * rápidos). Comprueba que cada petición lleva una firma `t=…,v1=…` válida,
+ * que la entrega se reintenta tras el 503 y acaba entregada con el mismo
+ * `id`, que un reenvío manual llega igual y que una firma alterada o
+ * caducada no se acepta. Termina con código 1 si algo falla.
+ */
+const secret = crypto.randomBytes(32).toString('hex');
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-roundtrip-'));
+
+// Petición recibida por el receptor
+interface Received {
+  id: string;
+  delivery: string;
+  signature: string;
+  body: string;
+  status: number;
+}
+
+const received: Received[] = [];
+let pendingFailures = 1;
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = String(req.headers['x-webhook-signature'] ?? '');
+    let status = 204;
+    if (!verifySignature(secret, signature, body)) status = 401;
+    else if (pendingFailures > 0) {
+      pendingFailures--;
+      status = 503;
+    }
+    received.push({ id: String(req.headers['x-webhook-id']), delivery: String(req.headers['x-webhook-delivery']), signature, body, status });
+    res.writeHead(status).end();
+  });
+});
+
+// Espera a que la entrega deje de estar pendiente
+async function settled(dispatcher: WebhookDispatcher, deliveryId: string, timeoutMs = 10000): Promise<WebhookDelivery> {
+  const limit = Date.now() + timeoutMs;
+  for (;;) {
+    const delivery = dispatcher.get(deliveryId);
+    if (delivery && delivery.status !== 'pending') return delivery;
+    if (Date.now() > limit) throw new Error(`La entrega ${deliveryId} sigue pendiente tras ${timeoutMs} ms`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+async function main() {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  console.log('Receptor de prueba en', url);
+
+  const dispatcher = new WebhookDispatcher([url], root, {
+    secret,
+    events: ['upload.completed'],
+    maxAttempts: 3,
+    timeoutMs: 2000,
+    retryBaseMs: 100,
+    retryMaxMs: 500,
+    logTtlMs: 60 * 60 * 1000,
+  });
+
+  const event = dispatcher.dispatch('upload.completed', { file: { fileId: 'roundtrip', size: 1 } });
+  assert.ok(event, 'el tipo upload.completed se notifica');
+  const [{ deliveryId }] = dispatcher.list();
+  const delivery = await settled(dispatcher, deliveryId);
+
+  // Primer intento rechazado con 503 y reintento entregado
+  assert.equal(delivery.status, 'delivered');
+  assert.deepEqual(delivery.attempts.map(a => a.statusCode), [503, 204]);
+  assert.deepEqual(received.map(r => r.status), [503, 204]);
+  for (const request of received) {
+    assert.match(request.signature, /^t=\d+,v1=[0-9a-f]{64}$/, 'formato de X-Webhook-Signature');
+    assert.equal(request.id, event.id, 'el id de la notificación se mantiene en los reintentos');
+    assert.equal(request.delivery, deliveryId);
+    assert.deepEqual(JSON.parse(request.body), event);
+  }
+  console.log('Entrega con reintento:', { deliveryId, attempts: delivery.attempts.map(a => a.statusCode) });
+
+  // Reenvío manual: misma notificación, ronda nueva de intentos
+  dispatcher.replay(deliveryId);
+  const replayed = await settled(dispatcher, deliveryId);
+  assert.equal(replayed.status, 'delivered');
+  assert.equal(replayed.attemptCount, 1);
+  assert.equal(received.length, 3);
+  assert.equal(received[2].id, event.id);
+  assert.equal(received[2].status, 204);
+  console.log('Reenvío entregado:', { deliveryId, id: event.id });
+
+  // La firma cubre el cuerpo, la clave y la fecha
+  const { signature, body } = received[2];
+  assert.ok(verifySignature(secret, signature, body));
+  assert.ok(!verifySignature(secret, signature, `${body} `), 'cuerpo alterado');
+  assert.ok(!verifySignature('otra-clave', signature, body), 'otra clave');
+  const old = Math.floor(Date.now() / 1000) - 10 * 60;
+  assert.ok(!verifySignature(secret, `t=${old},v1=${signPayload(secret, old, body)}`, body), 'firma caducada');
+  console.log('Firmas alteradas o caducadas rechazadas');
+
+  // El registro de entregas queda en disco
+  const logged = JSON.parse(fs.readFileSync(path.join(root, `${deliveryId}.json`), 'utf8')) as WebhookDelivery;
+  assert.equal(logged.status, 'delivered');
+}
+
+main().then(() => {
+  console.log('Prueba de webhooks superada');
+}, error => {
+  console.error('Prueba de webhooks fallida:', error);
+  process.exitCode = 1;
+}).finally(() => {
+  server.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+
+/**
+ * Estado de un trabajo de ensamblado en segundo plano
+ */
+export type AssemblyJobState = 'running' | 'done' | 'failed';
+
+/**
+ * Resultado de un ensamblado correcto
+ */
+export interface AssemblyResult {
+  fileId: string;             // ID del archivo en el catálogo
+  filePath: string;           // Ruta del archivo final (uploads/<fileId>)
+  originalFileName: string;   // Nombre enviado por el cliente
+  sanitizedFileName: string;  // Nombre final (sanitizado y, si hubo colisión, renombrado)
+  relativePath: string;       // Ruta lógica: carpeta relativa + nombre
+  version: number;            // Versión dentro de la misma ruta lógica
+  sha256: string;             // Hash real del archivo final
+}
+
+/**
+ * Trabajo de ensamblado que el cliente consulta mediante polling
+ */
+export interface AssemblyJob {
+  uploadId: string;
+  state: AssemblyJobState;
+  totalChunks: number;
+  processedChunks: number;    // Partes ya copiadas al archivo final
+  processedBytes: number;     // Bytes ya copiados al archivo final
+  startedAt: string;
+  finishedAt?: string;
+  result?: AssemblyResult;
+  error?: string;
+  code?: string;
+  chunkIndex?: number;        // Chunk causante del fallo, si aplica
+}
+
+/**
+ * Error de ensamblado con código estructurado para el cliente
+ */
+export class AssemblyError extends Error {
+  released = false;           // Las partes ya se consumieron (p. ej. multipart upload cerrado): la sesión debe volver a empezar
+
+  constructor(message: string, public code: string, public chunkIndex?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Ensambla las partes de una subida en el archivo final usando streams
+ *
+ * Lee cada `part_i` en orden y lo escribe en el archivo de salida respetando
+ * la contrapresión, sin bloquear el event loop. Verifica cada parte contra el
+ * hash registrado al recibirla y, si se indica, el SHA-256 del archivo completo.
+ * Si algo falla se elimina el archivo de salida parcial.
+ *
+ * @param options.dir - Directorio temporal con las partes
+ * @param options.totalChunks - Número de partes a concatenar
+ * @param options.outPath - Ruta del archivo final
+ * @param options.chunkHashes - Hashes registrados por índice
+ * @param options.fileHash - SHA-256 esperado del archivo completo (opcional)
+ * @param options.onProgress - Callback tras copiar cada parte
+ * @returns SHA-256 del archivo ensamblado
+ */
+export async function assembleParts(options: {
+  dir: string;
+  totalChunks: number;
+  outPath: string;
+  chunkHashes: Record<number, string>;
+  fileHash?: string;
+  onProgress?: (processedChunks: number, processedBytes: number) => void;
+}) {
+  const { dir, totalChunks, outPath, chunkHashes, fileHash, onProgress } = options;
+  const out = fs.createWriteStream(outPath);
+  const fileDigest = crypto.createHash('sha256');
+  let processedBytes = 0;
+
+  try {
+    for (let i = 0; i < totalChunks; i++) {
+      const partHash = crypto.createHash('sha256');
+      for await (const data of fs.createReadStream(path.join(dir, `part_${i}`))) {
+        partHash.update(data);
+        fileDigest.update(data);
+        processedBytes += data.length;
+        if (!out.write(data)) await once(out, 'drain');
+      }
+
+      // Verifica que la parte en disco sigue coincidiendo con el hash registrado al recibirla
+      const digest = partHash.digest('hex');
+      const expected = chunkHashes[i];
+      if (expected && expected !== digest) {
+        throw new AssemblyError(`El chunk ${i} está corrupto, vuelve a enviarlo`, 'CHUNK_CORRUPTED', i);
+      }
+      onProgress?.(i + 1, processedBytes);
+    }
+
+    out.end();
+    await once(out, 'finish');
+
+    // Verifica el hash del archivo completo si el cliente lo envió
+    const sha256 = fileDigest.digest('hex');
+    if (fileHash && fileHash.toLowerCase() !== sha256) {
+      throw new AssemblyError('El hash del archivo no coincide', 'FILE_HASH_MISMATCH');
+    }
+
+    return { sha256 };
+  } catch (error) {
+    out.destroy();
+    await fs.promises.rm(outPath, { force: true });
+    throw error;
+  }
+}
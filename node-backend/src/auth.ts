@@ -0,0 +1,87 @@
+import fs from 'fs';
+import type { NextFunction, Request, Response } from 'express';
+import jwt, { Algorithm, TokenExpiredError } from 'jsonwebtoken';
+import { ApiError, sendError } from './errors';
+import { JWT_AUDIENCE, JWT_ISSUER, JWT_PUBLIC_KEY_FILE, JWT_SECRET } from './config';
+
+/**
+ * Clave local con la que se verifican los tokens y algoritmos aceptados
+ */
+export interface AuthKey {
+  key: string | Buffer;
+  algorithms: Algorithm[];
+}
+
+/**
+ * Carga la clave de verificación configurada
+ *
+ * Una clave pública (`JWT_PUBLIC_KEY_FILE`) tiene prioridad sobre el secreto
+ * compartido (`JWT_SECRET`). Sin ninguna de las dos el servidor no arranca.
+ */
+export function loadAuthKey(): AuthKey {
+  if (JWT_PUBLIC_KEY_FILE) {
+    return { key: fs.readFileSync(JWT_PUBLIC_KEY_FILE), algorithms: ['RS256', 'ES256'] };
+  }
+  if (JWT_SECRET) {
+    return { key: JWT_SECRET, algorithms: ['HS256'] };
+  }
+  throw new Error('Falta la clave de autenticación: configura JWT_SECRET o JWT_PUBLIC_KEY_FILE');
+}
+
+/**
+ * Middleware: exige un token Bearer válido
+ *
+ * En peticiones GET y HEAD el token también se acepta en `?access_token=`, para
+ * que `<video>`, `<img>` o un enlace de descarga puedan usar la URL directamente.
+ * Deja el usuario autenticado (claim `sub`) en `res.locals.user`.
+ *
+ * @param authKey - Clave local y algoritmos aceptados
+ */
+export function authenticate(authKey: AuthKey) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+    const queryToken = (req.method === 'GET' || req.method === 'HEAD') && typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+    const token = match?.[1] ?? queryToken;
+    try {
+      if (!token) throw new ApiError(401, 'UNAUTHORIZED', 'Se requiere un token Bearer');
+
+      const payload = jwt.verify(token, authKey.key, {
+        algorithms: authKey.algorithms,
+        issuer: JWT_ISSUER,
+        audience: JWT_AUDIENCE,
+      });
+      if (typeof payload === 'string' || !payload.sub) {
+        throw new ApiError(401, 'INVALID_TOKEN', 'El token no identifica a un usuario');
+      }
+      res.locals.user = payload.sub;
+      next();
+    } catch (error) {
+      res.set('WWW-Authenticate', 'Bearer realm="uploads"');
+      if (error instanceof ApiError) return sendError(res, error);
+      if (error instanceof TokenExpiredError) return sendError(res, new ApiError(401, 'TOKEN_EXPIRED', 'El token ha caducado'));
+      sendError(res, new ApiError(401, 'INVALID_TOKEN', 'El token no es válido'));
+    }
+  };
+}
+
+/**
+ * Middleware: exige que el usuario autenticado sea administrador
+ *
+ * Va después de `authenticate`. Sin administradores configurados las rutas
+ * de administración quedan cerradas para todos.
+ *
+ * @param admins - Usuarios (claim `sub`) con permisos de administración
+ */
+export function requireAdmin(admins: string[]) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    if (admins.includes(requestUser(res))) return next();
+    sendError(res, new ApiError(403, 'FORBIDDEN', 'Se requieren permisos de administrador'));
+  };
+}
+
+/**
+ * Usuario autenticado de la petición en curso
+ */
+export function requestUser(res: Response): string {
+  return res.locals.user;
+}
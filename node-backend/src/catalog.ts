@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import type { FileProcessing } from './processing';
+import { logger } from './logger';
+
+/**
+ * Qué hacer cuando un usuario sube un archivo con una ruta que ya existe
+ *
+ * - rename: se guarda como `nombre (1).ext`, `nombre (2).ext`, ...
+ * - version: se guarda con la misma ruta y el número de versión siguiente
+ * - reject: el completado falla con 409
+ */
+export type CollisionPolicy = 'rename' | 'version' | 'reject';
+
+/**
+ * Metadatos de un archivo subido
+ *
+ * El contenido se guarda en `uploads/<fileId>`; el nombre y las carpetas que
+ * ve el usuario solo existen en el catálogo.
+ */
+export interface FileRecord {
+  fileId: string;            // ID generado por el servidor (nombre en disco)
+  owner: string;             // Usuario que subió el archivo
+  uploadId: string;          // Sesión de subida que lo creó
+  originalFileName: string;  // Nombre enviado por el cliente
+  fileName: string;          // Nombre sanitizado (renombrado si hubo colisión)
+  relativeDir: string;       // Carpeta relativa (carpetas soltadas)
+  relativePath: string;      // Ruta lógica: carpeta + nombre
+  version: number;           // Versión dentro de la misma ruta lógica
+  size: number;              // Tamaño en bytes
+  mimeType: string;          // Tipo MIME declarado por el cliente
+  sha256: string;            // Hash real del contenido
+  processing?: FileProcessing; // Procesamiento tras el ensamblado (sin él, el archivo está listo)
+  createdAt: string;         // Fecha de creación (ISO)
+  updatedAt: string;         // Última modificación (ISO)
+}
+
+/**
+ * Campos por los que se puede ordenar un listado de archivos
+ */
+export type FileSortField = 'name' | 'size' | 'createdAt';
+
+/**
+ * Filtros, orden y paginación de un listado de archivos
+ */
+export interface FileQuery {
+  q?: string;                // Texto contenido en la ruta lógica (sin distinguir mayúsculas)
+  mimeType?: string;         // Tipo exacto (`video/mp4`) o familia (`video/`)
+  dir?: string;              // Carpeta relativa exacta
+  sort: FileSortField;
+  order: 'asc' | 'desc';
+  page: number;              // Página (desde 1)
+  pageSize: number;
+}
+
+/**
+ * Nombre final reservado para un ensamblado en curso
+ */
+export interface NameReservation {
+  fileName: string;
+  relativePath: string;
+  version: number;
+  key: string;
+}
+
+/**
+ * Catálogo de archivos subidos persistido en disco
+ *
+ * Cada registro se guarda como `<fileId>.json` dentro del directorio raíz.
+ * Además del índice en memoria, mantiene las rutas reservadas por los
+ * ensamblados en curso para que dos subidas simultáneas no elijan el mismo
+ * nombre.
+ */
+export class FileCatalog {
+  private files = new Map<string, FileRecord>();
+  private reserved = new Set<string>();
+
+  constructor(private root: string) {
+    fs.mkdirSync(root, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Carga en memoria todos los registros guardados en disco
+   */
+  private load() {
+    for (const f of fs.readdirSync(this.root)) {
+      if (!f.endsWith('.json')) continue;
+      try {
+        const record = JSON.parse(fs.readFileSync(path.join(this.root, f), 'utf8')) as FileRecord;
+        this.files.set(record.fileId, record);
+      } catch (error) {
+        logger.error('Registro de archivo corrupto ignorado', { file: f, error });
+      }
+    }
+    logger.info('Catálogo de archivos cargado', { files: this.files.size });
+  }
+
+  /**
+   * Escribe el registro en disco de forma atómica (archivo temporal + rename)
+   */
+  private persist(record: FileRecord) {
+    const file = path.join(this.root, `${record.fileId}.json`);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(record, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  get(fileId: string) {
+    return this.files.get(fileId);
+  }
+
+  list() {
+    return [...this.files.values()];
+  }
+
+  /**
+   * Lista los archivos de un usuario con filtros, orden y paginación
+   *
+   * @param owner - Usuario propietario de los archivos
+   * @param query - Filtros, orden y página
+   * @returns La página pedida y el total de archivos que cumplen los filtros
+   */
+  search(owner: string, query: FileQuery) {
+    const q = query.q?.toLowerCase();
+    const matches = this.list().filter(f =>
+      f.owner === owner &&
+      (!q || f.relativePath.toLowerCase().includes(q)) &&
+      (!query.mimeType || (query.mimeType.endsWith('/') ? f.mimeType.startsWith(query.mimeType) : f.mimeType === query.mimeType)) &&
+      (query.dir === undefined || f.relativeDir === query.dir)
+    );
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compare: Record<FileSortField, (a: FileRecord, b: FileRecord) => number> = {
+      name: (a, b) => a.relativePath.localeCompare(b.relativePath) || a.version - b.version,
+      size: (a, b) => a.size - b.size,
+      createdAt: (a, b) => a.createdAt.localeCompare(b.createdAt),
+    };
+    matches.sort((a, b) => compare[query.sort](a, b) * direction);
+
+    const start = (query.page - 1) * query.pageSize;
+    return { items: matches.slice(start, start + query.pageSize), total: matches.length };
+  }
+
+  /**
+   * Bytes ocupados por los archivos de un usuario
+   *
+   * @param owner - Usuario propietario de los archivos
+   */
+  bytesByOwner(owner: string) {
+    let total = 0;
+    for (const f of this.files.values()) {
+      if (f.owner === owner) total += f.size;
+    }
+    return total;
+  }
+
+  /**
+   * Elige el nombre final de un archivo según la política de colisiones y lo reserva
+   *
+   * La reserva debe liberarse con `release` cuando el ensamblado termina,
+   * tanto si se añade el registro como si falla.
+   *
+   * @param owner - Usuario que sube el archivo
+   * @param relativeDir - Carpeta relativa ya sanitizada
+   * @param fileName - Nombre ya sanitizado
+   * @param policy - Política de colisiones
+   * @returns La reserva, o undefined si la ruta existe y la política es `reject`
+   */
+  reserveName(owner: string, relativeDir: string, fileName: string, policy: CollisionPolicy): NameReservation | undefined {
+    const pathOf = (name: string) => (relativeDir ? `${relativeDir}/${name}` : name);
+    let name = fileName;
+    let version = 1;
+
+    if (policy === 'version') {
+      // Misma ruta, siguiente versión libre entre el catálogo y las reservas
+      for (const f of this.files.values()) {
+        if (f.owner === owner && f.relativePath === pathOf(name)) version = Math.max(version, f.version + 1);
+      }
+      while (this.reserved.has(this.keyOf(owner, pathOf(name), version))) version++;
+    } else if (this.has(owner, pathOf(name))) {
+      if (policy === 'reject') return undefined;
+      const ext = path.extname(fileName);
+      const base = fileName.slice(0, fileName.length - ext.length);
+      for (let n = 1; this.has(owner, pathOf(name)); n++) name = `${base} (${n})${ext}`;
+    }
+
+    const key = this.keyOf(owner, pathOf(name), version);
+    this.reserved.add(key);
+    return { fileName: name, relativePath: pathOf(name), version, key };
+  }
+
+  release(reservation: NameReservation) {
+    this.reserved.delete(reservation.key);
+  }
+
+  /**
+   * Registra un archivo ya escrito en disco
+   *
+   * @param data - Metadatos del archivo sin fechas
+   * @returns El registro creado
+   */
+  add(data: Omit<FileRecord, 'createdAt' | 'updatedAt'>) {
+    const now = new Date().toISOString();
+    const record: FileRecord = { ...data, createdAt: now, updatedAt: now };
+    this.files.set(record.fileId, record);
+    this.persist(record);
+    return record;
+  }
+
+  /**
+   * Actualiza los campos de un registro y lo guarda en disco
+   *
+   * @param fileId - ID del archivo
+   * @param patch - Campos a cambiar
+   * @returns El registro actualizado, o undefined si no existe
+   */
+  update(fileId: string, patch: Partial<Omit<FileRecord, 'fileId' | 'createdAt' | 'updatedAt'>>) {
+    const record = this.files.get(fileId);
+    if (!record) return undefined;
+    Object.assign(record, patch, { updatedAt: new Date().toISOString() });
+    this.persist(record);
+    return record;
+  }
+
+  /**
+   * Elimina un registro del catálogo (el contenido lo borra quien llama)
+   *
+   * @param fileId - ID del archivo
+   */
+  remove(fileId: string) {
+    if (!this.files.delete(fileId)) return;
+    fs.rmSync(path.join(this.root, `${fileId}.json`), { force: true });
+  }
+
+  /**
+   * Indica si un usuario ya tiene (o está ensamblando) un archivo en esa ruta
+   */
+  has(owner: string, relativePath: string) {
+    for (const f of this.files.values()) {
+      if (f.owner === owner && f.relativePath === relativePath) return true;
+    }
+    const prefix = `${owner}\n${relativePath}\n`;
+    for (const key of this.reserved) {
+      if (key.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+
+  private keyOf(owner: string, relativePath: string, version: number) {
+    return `${owner}\n${relativePath}\n${version}`;
+  }
+}
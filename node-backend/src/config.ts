@@ -0,0 +1,152 @@
+import path from 'path';
+import type { CollisionPolicy } from './catalog';
+import type { FilePolicy, TypeSizeLimit } from './file-policy';
+
+/**
+ * Configuración del servidor de uploads
+ *
+ * Todos los valores pueden sobrescribirse con variables de entorno.
+ */
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const UPLOAD_ROOT = path.join(process.cwd(), 'uploads');
+export const TEMP_ROOT = path.join(process.cwd(), 'tmp_uploads');
+export const SESSIONS_ROOT = path.join(process.cwd(), 'data', 'sessions');
+
+// Bytes de subidas tus que aún no completan un chunk (siempre en disco local)
+export const TUS_TAILS_ROOT = path.join(process.cwd(), 'tmp_tus');
+
+// Tamaño de chunk acordado para las nuevas sesiones
+export const DEFAULT_CHUNK_SIZE = envNumber('DEFAULT_CHUNK_SIZE', 10 * MB);
+
+// Límites de las partes en sesiones de tamaño variable (el cliente ajusta el tamaño entre ambos)
+export const MIN_CHUNK_SIZE = envNumber('MIN_CHUNK_SIZE', 256 * 1024);
+export const MAX_CHUNK_SIZE = envNumber('MAX_CHUNK_SIZE', 64 * MB);
+
+// Tamaño máximo de un archivo individual
+export const MAX_UPLOAD_SIZE = envNumber('MAX_UPLOAD_SIZE', 10 * GB);
+
+// Bytes totales que puede ocupar un usuario entre subidas en curso y completadas
+export const USER_QUOTA_BYTES = envNumber('USER_QUOTA_BYTES', 50 * GB);
+
+// Tiempo sin recibir chunks tras el cual una sesión abierta caduca
+export const SESSION_TTL_MS = envNumber('SESSION_TTL_MS', 24 * 60 * 60 * 1000);
+
+// Tiempo que se conservan las sesiones terminadas (caducadas, canceladas o completadas) antes de borrarlas;
+// mientras tanto una sesión caducada sigue respondiendo 410 en lugar de 404
+export const SESSION_RETENTION_MS = envNumber('SESSION_RETENTION_MS', 7 * 24 * 60 * 60 * 1000);
+
+// Cada cuánto se buscan sesiones caducadas y temporales huérfanos
+export const SWEEP_INTERVAL_MS = envNumber('SWEEP_INTERVAL_MS', 10 * 60 * 1000);
+
+// Espacio máximo que pueden ocupar los chunks temporales de todas las subidas
+export const MAX_TEMP_BYTES = envNumber('MAX_TEMP_BYTES', 100 * GB);
+
+// Clave local para verificar los JWT: secreto compartido (HS256) o clave pública en PEM (RS256/ES256)
+export const JWT_SECRET = process.env.JWT_SECRET;
+export const JWT_PUBLIC_KEY_FILE = process.env.JWT_PUBLIC_KEY_FILE;
+
+// Emisor y audiencia esperados en los tokens (opcionales)
+export const JWT_ISSUER = process.env.JWT_ISSUER;
+export const JWT_AUDIENCE = process.env.JWT_AUDIENCE;
+
+// Orígenes permitidos por CORS, separados por comas (por defecto, cualquiera)
+export const CORS_ORIGINS = process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',').map(o => o.trim()) : '*';
+
+// Catálogo de metadatos de los archivos subidos
+export const FILES_ROOT = path.join(process.cwd(), 'data', 'files');
+
+// Política ante un archivo con la misma ruta que otro del usuario: rename, version o reject
+export const COLLISION_POLICY: CollisionPolicy = (['rename', 'version', 'reject'] as const)
+  .find(policy => policy === process.env.COLLISION_POLICY) ?? 'rename';
+
+// Almacenamiento de chunks y archivos finales: local (disco) o s3 (bucket compatible con S3)
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND === 's3' ? 's3' : 'local';
+
+// Bucket compatible con S3; con S3_ENDPOINT se puede apuntar a MinIO u otro servicio local
+export const S3_BUCKET = process.env.S3_BUCKET;
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_ENDPOINT = process.env.S3_ENDPOINT;
+export const S3_PREFIX = process.env.S3_PREFIX || '';
+
+// Lista separada por comas de una variable de entorno, en minúsculas (vacía si no está definida)
+function envList(name: string, fallback: string[] = []) {
+  const value = process.env[name];
+  if (value === undefined) return fallback;
+  return value.split(',').map(item => item.trim().toLowerCase().replace(/^\./, '')).filter(Boolean);
+}
+
+// Límites por tipo: "image/*=52428800,application/pdf=104857600" (bytes)
+function envTypeLimits(name: string): TypeSizeLimit[] {
+  return envList(name).flatMap(entry => {
+    const [type, bytes] = entry.split('=');
+    const maxBytes = Number(bytes);
+    return type && Number.isFinite(maxBytes) && maxBytes > 0 ? [{ type: type.trim(), maxBytes }] : [];
+  });
+}
+
+// Tipos MIME y extensiones admitidos o rechazados, con límites de tamaño por tipo (ver src/file-policy.ts)
+export const FILE_POLICY: FilePolicy = {
+  allowedTypes: envList('ALLOWED_MIME_TYPES'),
+  deniedTypes: envList('DENIED_MIME_TYPES', [
+    'application/x-msdownload', 'application/x-dosexec', 'application/x-executable',
+    'application/x-mach-binary', 'application/x-msi', 'application/vnd.microsoft.portable-executable',
+  ]),
+  allowedExtensions: envList('ALLOWED_EXTENSIONS'),
+  deniedExtensions: envList('DENIED_EXTENSIONS', ['exe', 'dll', 'com', 'scr', 'msi', 'bat', 'cmd', 'ps1', 'vbs']),
+  typeLimits: envTypeLimits('TYPE_SIZE_LIMITS'),
+  maxBytes: MAX_UPLOAD_SIZE,
+};
+
+// Procesadores que se ejecutan tras ensamblar cada archivo, en este orden (ver src/processing)
+export const POST_PROCESSORS = envList('POST_PROCESSORS', ['scan', 'metadata', 'thumbnail']);
+
+// Antivirus: demonio ClamAV por socket Unix o TCP; si no, SCAN_COMMAND; si tampoco, solo se reconoce EICAR
+export const CLAMAV_SOCKET = process.env.CLAMAV_SOCKET;
+export const CLAMAV_HOST = process.env.CLAMAV_HOST;
+export const CLAMAV_PORT = envNumber('CLAMAV_PORT', 3310);
+export const SCAN_COMMAND = process.env.SCAN_COMMAND;
+
+// Comando que genera las miniaturas de las imágenes ({input}, {output}, {size}) y lado máximo en píxeles
+export const THUMBNAIL_COMMAND = process.env.THUMBNAIL_COMMAND || 'convert {input}[0] -auto-orient -thumbnail {size}x{size} {output}';
+export const THUMBNAIL_SIZE = envNumber('THUMBNAIL_SIZE', 256);
+export const THUMBNAILS_ROOT = path.join(process.cwd(), 'data', 'thumbnails');
+
+// Tiempo máximo de cada procesador externo (antivirus, miniaturas)
+export const PROCESSING_TIMEOUT_MS = envNumber('PROCESSING_TIMEOUT_MS', 10 * 60 * 1000);
+
+// Copias locales de los archivos que necesitan las herramientas externas con almacenamiento remoto
+export const PROCESSING_ROOT = path.join(process.cwd(), 'tmp_processing');
+
+// Destinos de los webhooks, separados por comas (sin ninguno no se envían notificaciones)
+export const WEBHOOK_URLS = (process.env.WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+
+// Clave HMAC con la que se firman las notificaciones (obligatoria si hay destinos)
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+
+// Tipos de notificación que se envían (ver src/webhooks.ts)
+export const WEBHOOK_EVENTS = envList('WEBHOOK_EVENTS', ['upload.completed', 'upload.failed', 'upload.expired', 'file.processed']);
+
+// Reintentos de las entregas: intentos por ronda, tiempo máximo por petición y backoff
+export const WEBHOOK_MAX_ATTEMPTS = envNumber('WEBHOOK_MAX_ATTEMPTS', 8);
+export const WEBHOOK_TIMEOUT_MS = envNumber('WEBHOOK_TIMEOUT_MS', 10000);
+export const WEBHOOK_RETRY_BASE_MS = envNumber('WEBHOOK_RETRY_BASE_MS', 5000);
+export const WEBHOOK_RETRY_MAX_MS = envNumber('WEBHOOK_RETRY_MAX_MS', 60 * 60 * 1000);
+
+// Registro de entregas y tiempo que se conservan las ya terminadas
+export const WEBHOOKS_ROOT = path.join(process.cwd(), 'data', 'webhooks');
+export const WEBHOOK_LOG_TTL_MS = envNumber('WEBHOOK_LOG_TTL_MS', 7 * 24 * 60 * 60 * 1000);
+
+// Usuarios (claim `sub`) con acceso a las rutas /api/admin
+export const ADMIN_USERS = (process.env.ADMIN_USERS || '').split(',').map(user => user.trim()).filter(Boolean);
+
+// Log: nivel mínimo (debug, info, warn, error) y formato (json o pretty)
+export const LOG_LEVEL = (['debug', 'info', 'warn', 'error'] as const)
+  .find(level => level === process.env.LOG_LEVEL) ?? 'info';
+export const LOG_FORMAT = process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json';
@@ -0,0 +1,27 @@
+import type { Response } from 'express';
+import { logger } from './logger';
+
+/**
+ * Error de la API con código HTTP y código estructurado para el cliente
+ */
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string, public details?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+/**
+ * Envía un error como respuesta JSON `{ error, code, ...details }`
+ *
+ * Los errores que no son ApiError se responden como 500 genérico. El código
+ * queda en `res.locals.errorCode` para el log de la petición y las métricas.
+ */
+export function sendError(res: Response, error: unknown) {
+  if (error instanceof ApiError) {
+    res.locals.errorCode = error.code;
+    return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+  }
+  logger.error('Error inesperado', { error });
+  res.locals.errorCode = 'INTERNAL_ERROR';
+  return res.status(500).json({ error: String(error), code: 'INTERNAL_ERROR' });
+}
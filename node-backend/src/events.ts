@@ -0,0 +1,166 @@
+import type { Request, Response } from 'express';
+import type { UploadSession } from './sessions';
+import type { AssemblyResult } from './assembly';
+import type { FileProcessing } from './processing';
+
+/**
+ * Tipo de evento del ciclo de vida de una sesión
+ *
+ * - created: sesión abierta (API de chunks o tus)
+ * - chunk-received: el servidor almacenó un chunk
+ * - assembling: progreso del ensamblado del archivo final
+ * - completed: archivo final en el catálogo
+ * - failed: el ensamblado falló; la sesión vuelve a quedar abierta
+ * - expired: la sesión caducó por inactividad
+ * - processing: el archivo final pasó a procesarse o cambió de procesador
+ * - processed: procesamiento terminado (listo o en cuarentena)
+ */
+export type UploadEventType = 'created' | 'chunk-received' | 'assembling' | 'completed' | 'failed' | 'expired' | 'processing' | 'processed';
+
+/**
+ * Evento de una sesión tal como se envía al cliente
+ *
+ * Los campos opcionales dependen del tipo de evento.
+ */
+export interface UploadEvent {
+  id: number;                 // Número creciente (Last-Event-ID para reanudar el stream)
+  type: UploadEventType;
+  uploadId: string;
+  fileName: string;
+  relativeDir: string;
+  fileSize: number;
+  at: string;                 // Fecha del evento (ISO)
+  chunkIndex?: number;        // chunk-received: chunk almacenado; failed: chunk causante, si aplica
+  receivedChunks?: number;    // chunk-received: chunks almacenados hasta ahora
+  totalChunks?: number;       // chunk-received, assembling: chunks de la sesión (0 si aún no se conoce)
+  processedBytes?: number;    // assembling: bytes ya copiados al archivo final
+  percent?: number;           // assembling: porcentaje ensamblado (0-100)
+  result?: AssemblyResult;    // completed: archivo final
+  error?: string;             // failed: motivo
+  code?: string;              // failed: código estructurado
+  fileId?: string;            // processing, processed: archivo del catálogo
+  processing?: FileProcessing; // processing, processed: estado y resultados de los procesadores
+}
+
+/**
+ * Datos propios de cada tipo de evento
+ */
+export type UploadEventDetails = Pick<UploadEvent,
+  'chunkIndex' | 'receivedChunks' | 'totalChunks' | 'processedBytes' | 'percent' | 'result' | 'error' | 'code' | 'fileId' | 'processing'>;
+
+/**
+ * Datos de la sesión (o del archivo que creó) a los que se refiere un evento
+ */
+export type UploadEventSubject = Pick<UploadSession, 'owner' | 'uploadId' | 'fileName' | 'relativeDir' | 'fileSize'>;
+
+/**
+ * Evento con el usuario al que pertenece (no se envía al cliente)
+ */
+interface OwnedEvent {
+  owner: string;
+  event: UploadEvent;
+}
+
+/**
+ * Configuración del stream de eventos
+ */
+const EVENTS_CONFIG = {
+  HISTORY_SIZE: 1000,         // Eventos recientes que se guardan para reenviarlos al reconectar
+  HEARTBEAT_MS: 15000,        // Comentario periódico para que proxies y navegador no corten la conexión
+  RETRY_MS: 3000              // Espera que se pide al navegador antes de reconectar
+} as const;
+
+/**
+ * Bus de eventos de las sesiones de subida
+ *
+ * Cada usuario recibe solo los eventos de sus sesiones, sea cual sea la
+ * pestaña o el dispositivo que las inició. Se guardan los últimos eventos en
+ * memoria para reenviar los perdidos cuando un cliente reconecta con
+ * `Last-Event-ID`; tras un reinicio del servidor la numeración empieza de nuevo.
+ */
+export class UploadEvents {
+  private nextId = 0;
+  private history: OwnedEvent[] = [];
+  private listeners = new Set<(owned: OwnedEvent) => void>();
+
+  /**
+   * Publica un evento de una sesión
+   *
+   * @param session - Sesión a la que se refiere (o los mismos datos tomados de su archivo)
+   * @param type - Tipo de evento
+   * @param details - Datos propios del tipo de evento
+   */
+  publish(session: UploadEventSubject, type: UploadEventType, details: UploadEventDetails = {}) {
+    const owned: OwnedEvent = {
+      owner: session.owner,
+      event: {
+        id: ++this.nextId,
+        type,
+        uploadId: session.uploadId,
+        fileName: session.fileName,
+        relativeDir: session.relativeDir,
+        fileSize: session.fileSize,
+        at: new Date().toISOString(),
+        ...details,
+      },
+    };
+    this.history.push(owned);
+    if (this.history.length > EVENTS_CONFIG.HISTORY_SIZE) this.history.shift();
+    for (const listener of this.listeners) listener(owned);
+  }
+
+  /**
+   * Escucha los eventos de un usuario
+   *
+   * @param owner - Usuario autenticado
+   * @param listener - Recibe cada evento
+   * @param afterId - Reenvía antes los eventos guardados posteriores a este ID
+   * @returns Función que deja de escuchar
+   */
+  subscribe(owner: string, listener: (event: UploadEvent) => void, afterId?: number) {
+    if (afterId !== undefined) {
+      for (const owned of this.history) {
+        if (owned.owner === owner && owned.event.id > afterId) listener(owned.event);
+      }
+    }
+    const own = (owned: OwnedEvent) => {
+      if (owned.owner === owner) listener(owned.event);
+    };
+    this.listeners.add(own);
+    return () => { this.listeners.delete(own); };
+  }
+}
+
+/**
+ * Handler de Express que sirve los eventos del usuario como Server-Sent Events
+ *
+ * Cada evento se envía con su `id`, su tipo en `event` y el JSON en `data`.
+ * El navegador reconecta solo y manda la cabecera `Last-Event-ID`, con la que
+ * se reenvían los eventos que se perdió mientras tanto.
+ *
+ * @param events - Bus de eventos
+ * @param ownerOf - Usuario autenticado de la petición
+ */
+export function streamEvents(events: UploadEvents, ownerOf: (res: Response) => string) {
+  return (req: Request, res: Response) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // nginx no debe acumular el stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${EVENTS_CONFIG.RETRY_MS}\n\n`);
+
+    const lastId = Number(req.get('Last-Event-ID'));
+    const unsubscribe = events.subscribe(ownerOf(res), event => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }, Number.isInteger(lastId) && lastId >= 0 ? lastId : undefined);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENTS_CONFIG.HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  };
+}
@@ -0,0 +1,237 @@
+import path from 'path';
+import { ApiError } from './errors';
+import type { UploadSession } from './sessions';
+
+/**
+ * Límite de tamaño para los archivos de un tipo MIME
+ */
+export interface TypeSizeLimit {
+  type: string;                 // Tipo exacto (`application/pdf`) o familia (`image/*`)
+  maxBytes: number;
+}
+
+/**
+ * Política de tipos de archivo que se admiten
+ *
+ * Las listas de permitidos vacías admiten cualquier valor; las de denegados
+ * ganan siempre. Los tipos aceptan comodines (`video/*`) y las extensiones se
+ * guardan en minúsculas y sin punto. Se devuelve tal cual en
+ * `GET /api/uploads/policy` para que el cliente aplique las mismas reglas.
+ */
+export interface FilePolicy {
+  allowedTypes: string[];
+  deniedTypes: string[];
+  allowedExtensions: string[];
+  deniedExtensions: string[];
+  typeLimits: TypeSizeLimit[];  // Se aplica el primero cuyo tipo coincida
+  maxBytes: number;             // Tamaño máximo de cualquier archivo
+}
+
+/**
+ * Firma binaria ("magic bytes") de un formato conocido
+ */
+interface Signature {
+  type: string;                 // Tipo MIME del formato
+  extensions: string[];         // Extensiones que deben empezar con esta firma
+  family?: string;              // Formatos que se confunden entre sí por compartir contenedor
+  matches(head: Buffer): boolean;
+}
+
+// Bytes iniciales necesarios para reconocer todos los formatos (tar tiene la firma en el byte 257)
+export const SNIFF_BYTES = 512;
+
+function startsWith(head: Buffer, bytes: number[] | string, offset = 0) {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return head.length >= offset + expected.length && head.subarray(offset, offset + expected.length).equals(expected);
+}
+
+function riff(head: Buffer, format: string) {
+  return startsWith(head, 'RIFF') && startsWith(head, format, 8);
+}
+
+// Contenedores ISO BMFF (mp4, mov, heic...): la marca va tras `ftyp`
+function ftyp(head: Buffer, brands: string[]) {
+  return startsWith(head, 'ftyp', 4) && brands.includes(head.toString('latin1', 8, 12));
+}
+
+const ISO_BRANDS = {
+  heic: ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'],
+  avif: ['avif', 'avis'],
+  quicktime: ['qt  '],
+  m4a: ['M4A ', 'M4B '],
+};
+
+/**
+ * Formatos que se reconocen por su contenido
+ *
+ * Los formatos basados en zip (docx, xlsx, epub...) y en OLE (doc, xls...)
+ * comparten firma con su contenedor, y los de ISO BMFF (mp4, mov, heic...)
+ * forman una familia. Los ejecutables no tienen extensiones
+ * propias en la lista: se detectan para rechazarlos, no para esperarlos.
+ */
+const SIGNATURES: Signature[] = [
+  { type: 'application/pdf', extensions: ['pdf'], matches: h => startsWith(h, '%PDF-') },
+  { type: 'image/png', extensions: ['png'], matches: h => startsWith(h, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { type: 'image/jpeg', extensions: ['jpg', 'jpeg', 'jpe'], matches: h => startsWith(h, [0xff, 0xd8, 0xff]) },
+  { type: 'image/gif', extensions: ['gif'], matches: h => startsWith(h, 'GIF87a') || startsWith(h, 'GIF89a') },
+  { type: 'image/webp', extensions: ['webp'], matches: h => riff(h, 'WEBP') },
+  { type: 'image/bmp', extensions: ['bmp'], matches: h => startsWith(h, 'BM') && startsWith(h, [0, 0, 0, 0], 6) },
+  { type: 'image/tiff', extensions: ['tif', 'tiff'], matches: h => startsWith(h, [0x49, 0x49, 0x2a, 0x00]) || startsWith(h, [0x4d, 0x4d, 0x00, 0x2a]) },
+  { type: 'image/heic', family: 'isobmff', extensions: ['heic', 'heif'], matches: h => ftyp(h, ISO_BRANDS.heic) },
+  { type: 'image/avif', family: 'isobmff', extensions: ['avif'], matches: h => ftyp(h, ISO_BRANDS.avif) },
+  // Los .mov antiguos empiezan directamente por un átomo sin `ftyp`
+  { type: 'video/quicktime', family: 'isobmff', extensions: ['mov'], matches: h => ftyp(h, ISO_BRANDS.quicktime) || ['moov', 'mdat', 'wide', 'free'].some(atom => startsWith(h, atom, 4)) },
+  { type: 'audio/mp4', family: 'isobmff', extensions: ['m4a', 'm4b'], matches: h => ftyp(h, ISO_BRANDS.m4a) },
+  { type: 'video/mp4', family: 'isobmff', extensions: ['mp4', 'm4v', '3gp'], matches: h => startsWith(h, 'ftyp', 4) },
+  { type: 'video/webm', extensions: ['webm', 'mkv'], matches: h => startsWith(h, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { type: 'video/x-msvideo', extensions: ['avi'], matches: h => riff(h, 'AVI ') },
+  { type: 'audio/wav', extensions: ['wav'], matches: h => riff(h, 'WAVE') },
+  { type: 'audio/mpeg', extensions: ['mp3'], matches: h => startsWith(h, 'ID3') || (h.length >= 2 && h[0] === 0xff && (h[1] & 0xe0) === 0xe0) },
+  { type: 'audio/ogg', extensions: ['ogg', 'oga', 'ogv', 'opus'], matches: h => startsWith(h, 'OggS') },
+  { type: 'audio/flac', extensions: ['flac'], matches: h => startsWith(h, 'fLaC') },
+  { type: 'application/zip', extensions: ['zip', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk'], matches: h => startsWith(h, [0x50, 0x4b, 0x03, 0x04]) || startsWith(h, [0x50, 0x4b, 0x05, 0x06]) },
+  { type: 'application/gzip', extensions: ['gz', 'tgz'], matches: h => startsWith(h, [0x1f, 0x8b]) },
+  { type: 'application/x-7z-compressed', extensions: ['7z'], matches: h => startsWith(h, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { type: 'application/vnd.rar', extensions: ['rar'], matches: h => startsWith(h, 'Rar!\x1a\x07') },
+  { type: 'application/x-tar', extensions: ['tar'], matches: h => startsWith(h, 'ustar', 257) },
+  { type: 'application/x-ole-storage', extensions: ['doc', 'xls', 'ppt', 'msg'], matches: h => startsWith(h, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  { type: 'application/wasm', extensions: ['wasm'], matches: h => startsWith(h, [0x00, 0x61, 0x73, 0x6d]) },
+  { type: 'application/x-msdownload', extensions: [], matches: h => startsWith(h, 'MZ') },
+  { type: 'application/x-executable', extensions: [], matches: h => startsWith(h, [0x7f, 0x45, 0x4c, 0x46]) },
+  {
+    type: 'application/x-mach-binary',
+    extensions: [],
+    matches: h => [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe]].some(magic => startsWith(h, magic)),
+  },
+];
+
+/**
+ * Extensión de un nombre de archivo, en minúsculas y sin punto
+ */
+export function extensionOf(fileName: string) {
+  return path.extname(fileName).slice(1).toLowerCase();
+}
+
+/**
+ * Tipo MIME normalizado: en minúsculas y sin parámetros (`; charset=...`)
+ */
+function normalizeType(mimeType: string) {
+  return mimeType.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+}
+
+/**
+ * Comprueba si un tipo MIME encaja con un patrón (`image/png`, `image/*` o `*`)
+ */
+function typeMatches(pattern: string, mimeType: string) {
+  if (pattern === '*' || pattern === '*/*') return true;
+  return pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+}
+
+/**
+ * Tamaño máximo que admite la política para un tipo MIME
+ */
+function maxBytesFor(policy: FilePolicy, mimeType: string) {
+  const limit = policy.typeLimits.find(l => typeMatches(l.type, mimeType));
+  return limit ? Math.min(limit.maxBytes, policy.maxBytes) : policy.maxBytes;
+}
+
+/**
+ * Aplica las listas de tipos y los límites de tamaño a un tipo MIME
+ *
+ * @param policy - Política vigente
+ * @param mimeType - Tipo (normalizado) a comprobar
+ * @param size - Tamaño del archivo en bytes
+ * @param code - Código del error si el tipo no se admite
+ * @param deniedOnly - Aplicar solo la lista de denegados (sin permitidos ni límites de tamaño)
+ */
+function checkType(policy: FilePolicy, mimeType: string, size: number, code: string, deniedOnly = false) {
+  const denied = policy.deniedTypes.some(p => typeMatches(p, mimeType));
+  const allowed = deniedOnly || !policy.allowedTypes.length || policy.allowedTypes.some(p => typeMatches(p, mimeType));
+  if (denied || !allowed) {
+    throw new ApiError(415, code, `No se admiten archivos de tipo ${mimeType}`, { mimeType });
+  }
+  if (deniedOnly) return;
+  const maxBytes = maxBytesFor(policy, mimeType);
+  if (size > maxBytes) {
+    throw new ApiError(413, 'FILE_TOO_LARGE', `Los archivos de tipo ${mimeType} no pueden superar ${maxBytes} bytes`, { maxBytes, mimeType });
+  }
+}
+
+/**
+ * Valida el nombre, el tipo y el tamaño declarados para una subida nueva
+ *
+ * @param policy - Política vigente
+ * @param fileName - Nombre declarado
+ * @param mimeType - Tipo MIME declarado por el navegador
+ * @param size - Tamaño declarado en bytes
+ */
+export function checkDeclaredFile(policy: FilePolicy, fileName: string, mimeType: string, size: number) {
+  const extension = extensionOf(fileName);
+  const denied = policy.deniedExtensions.includes(extension);
+  const allowed = !policy.allowedExtensions.length || policy.allowedExtensions.includes(extension);
+  if (denied || !allowed) {
+    throw new ApiError(415, 'EXTENSION_NOT_ALLOWED', extension ? `No se admiten archivos .${extension}` : 'No se admiten archivos sin extensión', { extension });
+  }
+  checkType(policy, normalizeType(mimeType), size, 'FILE_TYPE_NOT_ALLOWED');
+}
+
+/**
+ * Reconoce el formato de un archivo por sus primeros bytes
+ *
+ * @param head - Primeros bytes del archivo (al menos SNIFF_BYTES si los hay)
+ * @returns Firma del formato, o undefined si no es un formato conocido (p. ej. texto)
+ */
+function sniff(head: Buffer) {
+  return SIGNATURES.find(signature => signature.matches(head));
+}
+
+/**
+ * Tipo MIME reconocido por los primeros bytes de un archivo
+ *
+ * @param head - Primeros bytes del archivo
+ * @returns Tipo del formato, o undefined si no es un formato conocido
+ */
+export function sniffType(head: Buffer) {
+  return sniff(head)?.type;
+}
+
+/**
+ * Verifica el tipo real de una subida con los primeros bytes de su chunk 0
+ *
+ * Si la extensión o el tipo declarados corresponden a un formato conocido,
+ * el contenido debe tener su firma (un `.exe` renombrado a `.pdf` no la
+ * tiene). Si la firma confirma ese formato, la lista de permitidos y los
+ * límites ya aplicados al tipo declarado siguen valiendo (un `.docx` se
+ * reconoce como zip y un `.ogv` como audio/ogg) y al tipo detectado solo se
+ * le aplica la lista de denegados. Si no se esperaba ningún formato, el tipo
+ * detectado debe pasar la política completa, así que un ejecutable tampoco
+ * entra como `.txt`.
+ *
+ * @param policy - Política vigente
+ * @param session - Sesión de subida
+ * @param head - Primeros bytes del chunk 0
+ */
+export function checkContent(policy: FilePolicy, session: UploadSession, head: Buffer) {
+  const declaredType = normalizeType(session.mimeType);
+  const extension = extensionOf(session.fileName);
+  const detected = sniff(head);
+  const detectedType = detected?.type;
+  const expected = SIGNATURES.find(s => s.extensions.includes(extension))
+    ?? SIGNATURES.find(s => s.type === declaredType);
+
+  // Un mp4 con marca de QuickTime (o al revés) sigue siendo el formato esperado
+  const familyOf = (signature?: Signature) => signature && (signature.family ?? signature.type);
+  if (expected && familyOf(expected) !== familyOf(detected)) {
+    throw new ApiError(415, 'FILE_TYPE_MISMATCH', `El contenido de ${session.fileName} no corresponde a su tipo declarado`, {
+      declaredType, expectedType: expected.type, detectedType: detectedType ?? null,
+    });
+  }
+  if (detectedType) {
+    try {
+      checkType(policy, detectedType, session.fileSize, 'FILE_TYPE_MISMATCH', !!expected);
+    } catch (error) {
+      if (error instanceof ApiError) error.details = { ...error.details, declaredType, detectedType };
+      throw error;
+    }
+  }
+}
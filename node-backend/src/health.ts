@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Resultado de comprobar un directorio
+ */
+export interface DirectoryCheck {
+  path: string;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Estado de salud devuelto por /healthz y /readyz
+ */
+export interface HealthReport {
+  status: 'ok' | 'error';
+  checks: Record<string, DirectoryCheck>;
+}
+
+/**
+ * Comprueba que los directorios de trabajo existen y admiten escritura
+ *
+ * Sin `probe` solo se comprueban los permisos (barato, para /healthz). Con
+ * `probe` además se crea y se borra un archivo en cada uno, lo que detecta
+ * también un disco lleno o montado en solo lectura (para /readyz).
+ *
+ * @param dirs - Directorios por nombre (`temp`, `uploads`...)
+ * @param probe - Escribir un archivo de prueba en cada directorio
+ */
+export async function checkDirectories(dirs: Record<string, string>, probe = false): Promise<HealthReport> {
+  const entries = await Promise.all(Object.entries(dirs).map(async ([name, dir]): Promise<[string, DirectoryCheck]> => {
+    try {
+      await fs.promises.access(dir, fs.constants.W_OK);
+      if (probe) {
+        const file = path.join(dir, `.probe-${process.pid}-${Date.now()}`);
+        await fs.promises.writeFile(file, '');
+        await fs.promises.rm(file, { force: true });
+      }
+      return [name, { path: dir, ok: true }];
+    } catch (error) {
+      return [name, { path: dir, ok: false, error: (error as NodeJS.ErrnoException).code || String(error) }];
+    }
+  }));
+  const checks = Object.fromEntries(entries);
+  return { status: entries.every(([, check]) => check.ok) ? 'ok' : 'error', checks };
+}
@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { LOG_FORMAT, LOG_LEVEL } from './config';
+
+/**
+ * Nivel de un mensaje del log
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Campos estructurados de una línea del log
+ */
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Campos de correlación (requestId, uploadId, fileId...) de la petición o tarea en curso
+const context = new AsyncLocalStorage<LogFields>();
+
+// Identificadores de petición aceptados en X-Request-Id (los demás se sustituyen)
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Convierte los errores en objetos serializables (JSON.stringify los deja en `{}`)
+ */
+function replacer(_key: string, value: unknown) {
+  if (value instanceof Error) {
+    const { code } = value as NodeJS.ErrnoException;
+    return { name: value.name, message: value.message, ...(code && { code }), stack: value.stack };
+  }
+  return typeof value === 'bigint' ? String(value) : value;
+}
+
+/**
+ * Escribe una línea del log
+ *
+ * En formato `json` (por defecto) cada línea es un objeto con `time`,
+ * `level`, `msg`, los campos de correlación y los propios del mensaje; en
+ * formato `pretty` los campos van detrás del mensaje, para desarrollo.
+ */
+function write(level: LogLevel, msg: string, fields?: LogFields) {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+  const entry = { time: new Date().toISOString(), level, msg, ...context.getStore(), ...fields };
+
+  let line: string;
+  try {
+    if (LOG_FORMAT === 'pretty') {
+      const { time, level: _level, msg: _msg, ...rest } = entry;
+      line = `${time} ${level.toUpperCase().padEnd(5)} ${msg}${Object.keys(rest).length ? ` ${JSON.stringify(rest, replacer)}` : ''}`;
+    } else {
+      line = JSON.stringify(entry, replacer);
+    }
+  } catch (error) {
+    // Campos no serializables (p. ej. referencias circulares)
+    line = JSON.stringify({ time: entry.time, level, msg, serializationError: String(error) });
+  }
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+/**
+ * Log estructurado del servidor
+ */
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields),
+};
+
+/**
+ * Ejecuta una función con campos de correlación añadidos a todos sus logs
+ *
+ * Los campos se propagan a todo lo asíncrono que arranque la función, así
+ * que sirve para tareas en segundo plano (ensamblado, procesamiento...).
+ *
+ * @param fields - Campos que se añaden (p. ej. `{ uploadId }`)
+ * @param fn - Función a ejecutar
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Añade campos de correlación al contexto actual (p. ej. el uploadId de la ruta)
+ */
+export function addLogContext(fields: LogFields) {
+  const store = context.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+/**
+ * Middleware: asigna un ID a cada petición y registra su resultado
+ *
+ * El ID se toma de `X-Request-Id` si el cliente (o el proxy) lo envía y se
+ * devuelve en la misma cabecera. Al terminar la petición se escribe una
+ * línea con el método, la ruta, el estado, la duración y el código de error
+ * estructurado, si lo hubo. Las rutas de `quiet` se registran en `debug`.
+ *
+ * @param quiet - Rutas de sondeo que no deben llenar el log (p. ej. /healthz)
+ */
+export function requestLogger(quiet: string[] = []) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get('X-Request-Id');
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+    res.set('X-Request-Id', requestId);
+
+    const store: LogFields = { requestId };
+    const started = process.hrtime.bigint();
+    // Solo la ruta: la query puede llevar el access_token
+    const path = req.originalUrl.split('?')[0];
+    res.on('close', () => context.run(store, () => {
+      const level = res.statusCode >= 500 ? 'error' : quiet.includes(path) ? 'debug' : 'info';
+      write(level, 'Petición atendida', {
+        method: req.method,
+        path,
+        status: res.statusCode,
+        durationMs: Math.round(Number(process.hrtime.bigint() - started) / 1e6),
+        ...(res.locals.errorCode && { code: res.locals.errorCode }),
+        ...(!res.writableFinished && { aborted: true }),
+      });
+    }));
+    context.run(store, next);
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Etiquetas de una serie (p. ej. `{ protocol: 'tus' }`)
+ */
+export type Labels = Record<string, string | number>;
+
+/**
+ * Serie de una métrica: sus etiquetas y su valor
+ */
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+/**
+ * Clave estable de un conjunto de etiquetas (sin depender del orden)
+ */
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, String(labels[name])]));
+}
+
+/**
+ * Etiquetas en el formato de texto de Prometheus: `{a="1",b="x"}`
+ */
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Base de las métricas: nombre, ayuda, tipo y series por etiquetas
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, Series<T>>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  protected entry(labels: Labels, initial: () => T) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Líneas de la métrica en el formato de texto de Prometheus
+   */
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+/**
+ * Contador: solo crece (bytes recibidos, errores...)
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected samples() {
+    return [...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+  }
+}
+
+/**
+ * Valor instantáneo (sesiones activas, disco ocupado...)
+ *
+ * Con `collect` el valor se recalcula justo antes de cada lectura de /metrics.
+ */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, private collect?: (gauge: Gauge) => void | Promise<void>) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /**
+   * Borra todas las series (p. ej. antes de recalcularlas en `collect`)
+   */
+  reset() {
+    this.series.clear();
+  }
+
+  async update() {
+    await this.collect?.(this);
+  }
+
+  protected samples() {
+    return [...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+  }
+}
+
+/**
+ * Histograma de duraciones o tamaños con buckets acumulados
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  /**
+   * @param buckets - Límites superiores de los buckets, en orden creciente (sin +Inf)
+   */
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number) {
+    const series = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => { if (value <= bound) series.buckets[i]++; });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Empieza a medir una duración
+   *
+   * @returns Función que la termina y la registra en segundos con las etiquetas dadas
+   */
+  startTimer() {
+    const started = process.hrtime.bigint();
+    return (labels: Labels = {}) => this.observe(labels, Number(process.hrtime.bigint() - started) / 1e9);
+  }
+
+  protected samples() {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map((bound, i) => `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${value.buckets[i]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * Registro de métricas servido en formato de texto de Prometheus
+ *
+ * Sin dependencias externas: contadores, gauges e histogramas con
+ * etiquetas, suficientes para `/metrics`.
+ */
+export class MetricsRegistry {
+  static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private metrics: Metric<unknown>[] = [];
+
+  counter(name: string, help: string) {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => void | Promise<void>) {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]) {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  private register<M extends Metric<unknown>>(metric: M) {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Recalcula los gauges y devuelve todas las métricas en formato de texto
+   *
+   * Un gauge que falla al recalcularse se omite en lugar de romper la respuesta.
+   */
+  async render() {
+    const blocks = await Promise.all(this.metrics.map(async metric => {
+      if (metric instanceof Gauge) {
+        try {
+          await metric.update();
+        } catch {
+          return [];
+        }
+      }
+      return metric.render();
+    }));
+    return `${blocks.flat().join('\n')}\n`;
+  }
+}
@@ -0,0 +1,60 @@
+import path from 'path';
+
+// Longitud máxima de un nombre de archivo sanitizado
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * Convierte un nombre enviado por el cliente en un nombre de archivo seguro
+ *
+ * Sustituye separadores, caracteres reservados y de control, quita puntos y
+ * espacios finales y recorta los nombres demasiado largos conservando la
+ * extensión. Los nombres que quedan vacíos o son solo puntos (`.`, `..`)
+ * se sustituyen por `archivo`.
+ */
+export function sanitizeFileName(name: string) {
+  let cleaned = name
+    .replace(/[<>:"/\\|?*\[\]\x00-\x1f\x7f]/g, '_')
+    .trim()
+    .replace(/[. ]+$/, '');
+  if (!cleaned || /^\.+$/.test(cleaned)) return 'archivo';
+  if (cleaned.length > MAX_NAME_LENGTH) {
+    const ext = path.extname(cleaned).slice(0, 20);
+    cleaned = cleaned.slice(0, MAX_NAME_LENGTH - ext.length) + ext;
+  }
+  return cleaned;
+}
+
+/**
+ * Normaliza la carpeta de una ruta relativa enviada por el cliente
+ *
+ * Toma solo los directorios (sin el nombre del archivo), descarta segmentos
+ * vacíos, `.` y `..`, y sanitiza cada segmento. El resultado nunca puede
+ * salir del directorio donde se resuelva.
+ *
+ * @param relativePath - Ruta relativa, p. ej. `rodaje/dia1/clip.mp4`
+ * @returns Carpeta relativa normalizada (p. ej. `rodaje/dia1`) o cadena vacía
+ */
+export function sanitizeRelativeDir(relativePath?: string) {
+  if (!relativePath) return '';
+  const segments = relativePath.split(/[\\/]+/).slice(0, -1);
+  return segments
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .map(sanitizeFileName)
+    .join('/');
+}
+
+/**
+ * Resuelve una ruta dentro de un directorio raíz garantizando que no escape de él
+ *
+ * @param root - Directorio raíz
+ * @param parts - Segmentos relativos
+ * @returns Ruta absoluta contenida en `root`
+ */
+export function resolveInside(root: string, ...parts: string[]) {
+  const resolved = path.resolve(root, ...parts);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Ruta fuera del directorio permitido: ${resolved}`);
+  }
+  return resolved;
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { Readable, Transform, Writable } from 'stream';
+import type { Request } from 'express';
+import type multer from 'multer';
+import { ApiError } from './errors';
+import { SNIFF_BYTES } from './file-policy';
+import type { UploadSession } from './sessions';
+import type { PendingPart, StorageAdapter } from './storage/types';
+
+/**
+ * Copia un stream de chunk a un destino limitando su tamaño y calculando su SHA-256
+ *
+ * Si se supera `maxBytes`, el origen se aborta o falla, la copia se corta y
+ * la promesa se rechaza; el destino se destruye y quien llama limpia lo que
+ * hubiera escrito. El origen se drena en caso de error para que la petición
+ * HTTP pueda responderse.
+ *
+ * @param source - Stream con los bytes del chunk
+ * @param sink - Destino de los bytes (archivo, buffer en memoria...)
+ * @param maxBytes - Tamaño máximo permitido para el chunk
+ * @returns Bytes copiados, su SHA-256 y los primeros SNIFF_BYTES bytes
+ */
+export function receivePart(source: Readable, sink: Writable, maxBytes: number): Promise<{ size: number; hash: string; head: Buffer }> {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  let head = Buffer.alloc(0);
+
+  return new Promise((resolve, reject) => {
+    let failed = false;
+    const limiter = new Transform({
+      transform(data: Buffer, _encoding, callback) {
+        size += data.length;
+        if (size > maxBytes) {
+          return callback(new ApiError(413, 'CHUNK_TOO_LARGE', `El chunk supera el máximo de ${maxBytes} bytes`));
+        }
+        hash.update(data);
+        if (head.length < SNIFF_BYTES) head = Buffer.concat([head, data.subarray(0, SNIFF_BYTES - head.length)]);
+        callback(null, data);
+      },
+    });
+
+    // Ante cualquier error: corta el pipe, drena el origen y destruye el destino
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      source.unpipe(limiter);
+      source.resume();
+      limiter.destroy();
+      sink.destroy();
+      reject(error);
+    };
+
+    source.on('error', fail);
+    source.on('aborted', () => fail(new ApiError(400, 'CHUNK_ABORTED', 'La subida del chunk se interrumpió')));
+    limiter.on('error', fail);
+    sink.on('error', fail);
+    sink.on('finish', () => {
+      if (!failed) resolve({ size, hash: hash.digest('hex'), head });
+    });
+
+    source.pipe(limiter).pipe(sink);
+  });
+}
+
+/**
+ * Motor de almacenamiento de multer que entrega el chunk al almacenamiento configurado
+ *
+ * Sustituye a `multer.memoryStorage()`: el archivo pasa en streaming al
+ * adaptador. El resultado queda en `req.file` con `size`, `hash` y la parte
+ * pendiente de confirmar en `part`.
+ *
+ * @param target - Devuelve el almacenamiento, la sesión y el tamaño máximo para la petición
+ */
+export function partStorage(
+  target: (req: Request) => { storage: StorageAdapter; session: UploadSession; maxBytes: number }
+): multer.StorageEngine {
+  return {
+    _handleFile(req, file, callback) {
+      const { storage, session, maxBytes } = target(req);
+      storage.writePart(session, file.stream, maxBytes).then(
+        part => callback(null, { size: part.size, hash: part.hash, part } as Partial<Express.Multer.File>),
+        callback
+      );
+    },
+    _removeFile(_req, file, callback) {
+      (file as Express.Multer.File & { part: PendingPart }).part.discard().then(() => callback(null), callback);
+    },
+  };
+}
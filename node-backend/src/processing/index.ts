@@ -0,0 +1,41 @@
+import {
+  CLAMAV_HOST, CLAMAV_PORT, CLAMAV_SOCKET, POST_PROCESSORS, PROCESSING_TIMEOUT_MS, SCAN_COMMAND,
+  THUMBNAILS_ROOT, THUMBNAIL_COMMAND, THUMBNAIL_SIZE,
+} from '../config';
+import { MetadataProcessor } from './metadata';
+import { ScanEngine, ScanProcessor } from './scan';
+import { ThumbnailProcessor } from './thumbnail';
+import type { FileProcessor } from './types';
+import { logger } from '../logger';
+
+export { ProcessingPipeline } from './pipeline';
+export { thumbnailPath } from './thumbnail';
+export { QuarantineError } from './types';
+export type { FileProcessing, FileProcessor, ProcessingState, ProcessorContext, ProcessorResult } from './types';
+
+/**
+ * Motor del antivirus según la configuración
+ */
+function scanEngine(): ScanEngine {
+  if (CLAMAV_SOCKET || CLAMAV_HOST) return { kind: 'clamd', socket: CLAMAV_SOCKET, host: CLAMAV_HOST, port: CLAMAV_PORT };
+  if (SCAN_COMMAND) return { kind: 'command', command: SCAN_COMMAND.split(/\s+/).filter(Boolean) };
+  return { kind: 'eicar' };
+}
+
+/**
+ * Crea los procesadores configurados con `POST_PROCESSORS`, en su orden
+ *
+ * Los nombres desconocidos se ignoran con un aviso.
+ */
+export function createProcessors(): FileProcessor[] {
+  const factories: Record<string, () => FileProcessor> = {
+    scan: () => new ScanProcessor(scanEngine(), PROCESSING_TIMEOUT_MS),
+    metadata: () => new MetadataProcessor(),
+    thumbnail: () => new ThumbnailProcessor(THUMBNAIL_COMMAND.split(/\s+/).filter(Boolean), THUMBNAILS_ROOT, THUMBNAIL_SIZE, PROCESSING_TIMEOUT_MS),
+  };
+  return POST_PROCESSORS.flatMap(name => {
+    if (factories[name]) return [factories[name]()];
+    logger.warn('Procesador desconocido en POST_PROCESSORS ignorado', { processor: name });
+    return [];
+  });
+}
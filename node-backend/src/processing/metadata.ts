@@ -0,0 +1,192 @@
+import type { FileRecord } from '../catalog';
+import { sniffType } from '../file-policy';
+import type { FileProcessor, ProcessorContext } from './types';
+
+/**
+ * Metadatos básicos de un archivo multimedia
+ */
+export interface MediaMetadata {
+  detectedType?: string;     // Tipo reconocido por el contenido
+  width?: number;            // Imágenes y vídeo: píxeles
+  height?: number;
+  durationSeconds?: number;  // Audio y vídeo
+}
+
+// Bytes iniciales que se leen: suficientes para las cabeceras de imagen aunque haya EXIF delante
+const HEAD_BYTES = 256 * 1024;
+
+// Formatos con contenedor ISO BMFF (cajas `ftyp`, `moov`, `mdat`...)
+const ISO_TYPES = ['video/mp4', 'video/quicktime', 'audio/mp4'];
+
+// Tamaño máximo de la caja `moov` que se lee de un mp4/mov
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Extrae dimensiones y duración leyendo solo las cabeceras del archivo
+ *
+ * Reconoce PNG, JPEG, GIF, WebP y BMP (dimensiones), WAV (duración) y los
+ * contenedores ISO BMFF como mp4 y mov (duración y dimensiones del vídeo).
+ * De los demás formatos solo guarda el tipo detectado.
+ */
+export class MetadataProcessor implements FileProcessor {
+  readonly name = 'metadata';
+  readonly required = false;
+
+  appliesTo() {
+    return true;
+  }
+
+  async run(record: FileRecord, context: ProcessorContext) {
+    const head = await context.read({ start: 0, end: Math.min(record.size, HEAD_BYTES) - 1 });
+    const detectedType = sniffType(head);
+    const metadata: MediaMetadata = { detectedType, ...imageSize(detectedType, head) };
+
+    if (detectedType === 'audio/wav') {
+      metadata.durationSeconds = wavDuration(head);
+    } else if (detectedType && ISO_TYPES.includes(detectedType)) {
+      Object.assign(metadata, await isoMetadata(record.size, context));
+    }
+
+    // Solo se guardan los campos que se pudieron leer
+    return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+  }
+}
+
+/**
+ * Dimensiones de una imagen a partir de su cabecera
+ */
+function imageSize(type: string | undefined, head: Buffer): Pick<MediaMetadata, 'width' | 'height'> {
+  if (head.length < 30) return {};
+  switch (type) {
+    case 'image/png':
+      return { width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+    case 'image/gif':
+      return { width: head.readUInt16LE(6), height: head.readUInt16LE(8) };
+    case 'image/bmp':
+      return { width: head.readInt32LE(18), height: Math.abs(head.readInt32LE(22)) };
+    case 'image/webp':
+      return webpSize(head);
+    case 'image/jpeg':
+      return jpegSize(head);
+    default:
+      return {};
+  }
+}
+
+/**
+ * Dimensiones de un WebP según su variante (con pérdida, sin pérdida o extendido)
+ */
+function webpSize(head: Buffer) {
+  const chunk = head.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ') return { width: head.readUInt16LE(26) & 0x3fff, height: head.readUInt16LE(28) & 0x3fff };
+  if (chunk === 'VP8L') {
+    const bits = head.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') return { width: head.readUIntLE(24, 3) + 1, height: head.readUIntLE(27, 3) + 1 };
+  return {};
+}
+
+/**
+ * Dimensiones de un JPEG: recorre los segmentos hasta el marcador SOF
+ */
+function jpegSize(head: Buffer) {
+  let offset = 2;
+  while (offset + 9 < head.length && head[offset] === 0xff) {
+    const marker = head[offset + 1];
+    // SOF0-SOF15 salvo DHT (C4), JPG (C8) y DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: head.readUInt16BE(offset + 7), height: head.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + head.readUInt16BE(offset + 2);
+  }
+  return {};
+}
+
+/**
+ * Duración de un WAV: tamaño del bloque `data` entre los bytes por segundo de `fmt `
+ */
+function wavDuration(head: Buffer) {
+  let byteRate = 0;
+  for (let offset = 12; offset + 8 <= head.length;) {
+    const id = head.toString('latin1', offset, offset + 4);
+    const size = head.readUInt32LE(offset + 4);
+    if (id === 'fmt ' && offset + 16 <= head.length) byteRate = head.readUInt32LE(offset + 16);
+    if (id === 'data') return byteRate ? size / byteRate : undefined;
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+/**
+ * Cajas hijas de un rango de un contenedor ISO BMFF
+ */
+function* boxes(buffer: Buffer, start: number, end: number) {
+  for (let offset = start; offset + 8 <= end;) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return;
+    yield { type: buffer.toString('latin1', offset + 4, offset + 8), start: offset + header, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+}
+
+/**
+ * Duración y dimensiones de un mp4/mov a partir de su caja `moov`
+ *
+ * La caja puede estar al principio o al final del archivo: se recorren las
+ * cabeceras de las cajas de primer nivel leyendo solo unos bytes de cada una.
+ */
+async function isoMetadata(fileSize: number, context: ProcessorContext): Promise<MediaMetadata> {
+  let offset = 0;
+  for (let i = 0; i < 1000 && offset + 8 <= fileSize; i++) {
+    const header = await context.read({ start: offset, end: Math.min(offset + 16, fileSize) - 1 });
+    const type = header.toString('latin1', 4, 8);
+    let size = header.readUInt32BE(0);
+    if (size === 1 && header.length >= 16) size = Number(header.readBigUInt64BE(8));
+    else if (size === 0) size = fileSize - offset; // La última caja llega hasta el final del archivo
+    if (size < 8) return {};
+
+    if (type === 'moov') {
+      return size > MAX_MOOV_BYTES ? {} : parseMoov(await context.read({ start: offset, end: offset + size - 1 }));
+    }
+    offset += size;
+  }
+  return {};
+}
+
+/**
+ * Lee `mvhd` (duración) y el primer `tkhd` con dimensiones (vídeo) de una caja `moov`
+ */
+function parseMoov(moov: Buffer): MediaMetadata {
+  const metadata: MediaMetadata = {};
+  const [root] = boxes(moov, 0, moov.length);
+  if (!root) return metadata;
+
+  for (const box of boxes(moov, root.start, root.end)) {
+    if (box.type === 'mvhd') {
+      const version = moov[box.start];
+      const timescale = moov.readUInt32BE(box.start + (version === 1 ? 20 : 12));
+      const duration = version === 1 ? Number(moov.readBigUInt64BE(box.start + 24)) : moov.readUInt32BE(box.start + 16);
+      if (timescale) metadata.durationSeconds = duration / timescale;
+    } else if (box.type === 'trak' && metadata.width === undefined) {
+      for (const child of boxes(moov, box.start, box.end)) {
+        if (child.type !== 'tkhd') continue;
+        // Ancho y alto en coma fija 16.16 al final de la caja
+        const at = child.start + (moov[child.start] === 1 ? 88 : 76);
+        if (at + 8 <= child.end) {
+          const width = moov.readUInt32BE(at) >>> 16;
+          const height = moov.readUInt32BE(at + 4) >>> 16;
+          if (width && height) Object.assign(metadata, { width, height });
+        }
+      }
+    }
+  }
+  return metadata;
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { FileCatalog, FileRecord } from '../catalog';
+import type { ByteRange, StorageAdapter } from '../storage';
+import { FileProcessing, FileProcessor, ProcessorContext, QuarantineError } from './types';
+import { logger } from '../logger';
+
+/**
+ * Contexto de un archivo: lecturas por rango y copia local bajo demanda
+ */
+class FileContext implements ProcessorContext {
+  private copy?: Promise<string>;
+  private copied = false;
+
+  constructor(public storage: StorageAdapter, private fileId: string, private workRoot: string) {}
+
+  async read(range: ByteRange) {
+    const buffers: Buffer[] = [];
+    for await (const data of await this.storage.read(this.fileId, range)) buffers.push(data as Buffer);
+    return Buffer.concat(buffers);
+  }
+
+  localPath() {
+    // En disco local el archivo final ya es una ruta; en otro almacenamiento se descarga
+    if (this.storage.name === 'local') return Promise.resolve(this.storage.locate(this.fileId));
+    this.copy ??= (async () => {
+      const target = path.join(this.workRoot, this.fileId);
+      await fs.promises.mkdir(this.workRoot, { recursive: true });
+      this.copied = true;
+      await pipeline(await this.storage.read(this.fileId), fs.createWriteStream(target));
+      return target;
+    })();
+    return this.copy;
+  }
+
+  async cleanup() {
+    if (this.copied) await fs.promises.rm(path.join(this.workRoot, this.fileId), { force: true });
+  }
+}
+
+/**
+ * Pipeline de procesamiento tras el ensamblado
+ *
+ * Ejecuta los procesadores en orden sobre cada archivo nuevo y guarda en su
+ * registro del catálogo el estado y el resultado de cada uno. Los archivos
+ * se procesan de uno en uno para no competir por disco y CPU con las
+ * subidas; tras un reinicio se retoman los que quedaron a medias.
+ */
+export class ProcessingPipeline {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * @param processors - Procesadores, en el orden en que se ejecutan
+   * @param catalog - Catálogo donde se guarda el estado de cada archivo
+   * @param storage - Almacenamiento de los archivos finales
+   * @param workRoot - Directorio para las copias locales temporales
+   * @param onChange - Recibe el registro cada vez que cambia su procesamiento
+   */
+  constructor(
+    private processors: FileProcessor[],
+    private catalog: FileCatalog,
+    private storage: StorageAdapter,
+    private workRoot: string,
+    private onChange: (record: FileRecord) => void = () => {}
+  ) {}
+
+  /**
+   * Estado inicial del procesamiento de un archivo nuevo
+   *
+   * Sin procesadores configurados el archivo está listo desde el principio.
+   */
+  initialState(): FileProcessing {
+    return { state: this.processors.length ? 'pending' : 'ready', results: {} };
+  }
+
+  /**
+   * Encola un archivo del catálogo para procesarlo
+   *
+   * @param fileId - ID del archivo
+   */
+  enqueue(fileId: string) {
+    this.tail = this.tail
+      .then(() => this.process(fileId))
+      .catch(error => logger.error('Error procesando el archivo', { fileId, error }));
+  }
+
+  /**
+   * Vuelve a encolar los archivos cuyo procesamiento no terminó (reinicio del servidor)
+   *
+   * @returns Número de archivos encolados
+   */
+  resume() {
+    const unfinished = this.catalog.list().filter(r => r.processing?.state === 'pending' || r.processing?.state === 'processing');
+    unfinished.forEach(record => this.enqueue(record.fileId));
+    return unfinished.length;
+  }
+
+  /**
+   * Ejecuta todos los procesadores sobre un archivo
+   *
+   * Se detiene en cuanto uno pone el archivo en cuarentena o si el archivo
+   * se borra mientras tanto.
+   */
+  private async process(fileId: string) {
+    let record = this.catalog.get(fileId);
+    if (!record || !this.processors.length) return;
+
+    const processing: FileProcessing = { state: 'processing', results: {}, startedAt: new Date().toISOString() };
+    const context = new FileContext(this.storage, fileId, this.workRoot);
+    logger.info('Procesando archivo', { fileId, relativePath: record.relativePath });
+
+    try {
+      for (const processor of this.processors) {
+        if (!this.catalog.get(fileId)) return;
+        if (!processor.appliesTo(record)) {
+          processing.results[processor.name] = { status: 'skipped', finishedAt: new Date().toISOString() };
+          continue;
+        }
+
+        processing.current = processor.name;
+        record = this.save(fileId, processing) ?? record;
+        try {
+          const data = await processor.run(record, context);
+          processing.results[processor.name] = { status: 'done', data, finishedAt: new Date().toISOString() };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const quarantined = error instanceof QuarantineError;
+          processing.results[processor.name] = {
+            status: quarantined ? 'quarantined' : 'failed',
+            data: quarantined ? error.data : undefined,
+            error: message,
+            finishedAt: new Date().toISOString(),
+          };
+          if (quarantined || processor.required) {
+            logger.warn('Archivo en cuarentena', { fileId, processor: processor.name, reason: message });
+            processing.state = 'quarantined';
+            processing.reason = quarantined ? message : `${processor.name} no pudo completarse: ${message}`;
+            break;
+          }
+          logger.warn('Procesador no obligatorio fallido', { fileId, processor: processor.name, error: message });
+        }
+      }
+    } finally {
+      await context.cleanup().catch(error => logger.error('Error borrando la copia local', { fileId, error }));
+    }
+
+    if (processing.state === 'processing') processing.state = 'ready';
+    processing.current = undefined;
+    processing.finishedAt = new Date().toISOString();
+    this.save(fileId, processing);
+    logger.info('Procesamiento terminado', { fileId, state: processing.state });
+  }
+
+  /**
+   * Guarda una copia del estado en el registro y lo notifica
+   *
+   * @returns Registro actualizado, o undefined si el archivo ya no existe
+   */
+  private save(fileId: string, processing: FileProcessing) {
+    const record = this.catalog.update(fileId, { processing: { ...processing, results: { ...processing.results } } });
+    if (record) this.onChange(record);
+    return record;
+  }
+}
@@ -0,0 +1,131 @@
+import net from 'net';
+import { once } from 'events';
+import { execFile } from 'child_process';
+import type { FileRecord } from '../catalog';
+import { FileProcessor, ProcessorContext, QuarantineError } from './types';
+
+/**
+ * Motor del antivirus
+ *
+ * - clamd: se envía el contenido a un demonio ClamAV (socket Unix o TCP) con INSTREAM
+ * - command: se ejecuta un comando con la ruta del archivo (salida 0: limpio, 1: infectado)
+ * - eicar: sustituto local que solo reconoce el archivo de prueba EICAR
+ */
+export type ScanEngine =
+  | { kind: 'clamd'; socket?: string; host?: string; port: number }
+  | { kind: 'command'; command: string[] }
+  | { kind: 'eicar' };
+
+// Cadena del archivo de prueba estándar de los antivirus
+const EICAR = Buffer.from('X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*', 'latin1');
+
+/**
+ * Antivirus: pone en cuarentena los archivos infectados
+ *
+ * Es obligatorio: si el análisis no puede completarse (clamd caído, tiempo
+ * agotado...) el archivo también queda en cuarentena en lugar de servirse
+ * sin analizar.
+ */
+export class ScanProcessor implements FileProcessor {
+  readonly name = 'scan';
+  readonly required = true;
+
+  /**
+   * @param engine - Motor del antivirus
+   * @param timeoutMs - Tiempo máximo de un análisis
+   */
+  constructor(private engine: ScanEngine, private timeoutMs: number) {}
+
+  appliesTo() {
+    return true;
+  }
+
+  async run(record: FileRecord, context: ProcessorContext) {
+    switch (this.engine.kind) {
+      case 'clamd': return this.clamd(this.engine, record, context);
+      case 'command': return this.command(this.engine.command, context);
+      case 'eicar': return this.eicar(record, context);
+    }
+  }
+
+  /**
+   * Envía el archivo a clamd con el protocolo INSTREAM
+   *
+   * Cada bloque va precedido de su longitud (4 bytes big-endian) y un bloque
+   * de longitud 0 cierra el envío. clamd rechaza los archivos mayores que su
+   * `StreamMaxLength`, que hay que ajustar al tamaño de las subidas.
+   */
+  private async clamd(engine: Extract<ScanEngine, { kind: 'clamd' }>, record: FileRecord, context: ProcessorContext) {
+    const content = await context.storage.read(record.fileId);
+    const socket = engine.socket ? net.createConnection(engine.socket) : net.createConnection(engine.port, engine.host);
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('clamd no respondió a tiempo')));
+
+    socket.setEncoding('utf8');
+    const answered = new Promise<string>((resolve, reject) => {
+      let reply = '';
+      socket.on('data', (data: string) => reply += data);
+      socket.on('error', reject);
+      socket.on('close', () => resolve(reply));
+    });
+    const send = async () => {
+      await once(socket, 'connect');
+      socket.write('zINSTREAM\0');
+      for await (const data of content) {
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE((data as Buffer).length);
+        if (!socket.write(Buffer.concat([size, data as Buffer]))) await once(socket, 'drain');
+      }
+      socket.end(Buffer.alloc(4));
+    };
+
+    let reply: string;
+    try {
+      [, reply] = await Promise.all([send(), answered]);
+    } catch (error) {
+      content.destroy();
+      socket.destroy();
+      throw error;
+    }
+
+    // Respuesta: "stream: OK" o "stream: <firma> FOUND" (o "... ERROR")
+    const verdict = reply.replace(/\0/g, '').trim();
+    const found = /^stream: (.+) FOUND$/.exec(verdict);
+    if (found) throw new QuarantineError(`Virus detectado: ${found[1]}`, { engine: 'clamd', signature: found[1] });
+    if (verdict !== 'stream: OK') throw new Error(`Respuesta inesperada de clamd: ${verdict || '(vacía)'}`);
+    return { engine: 'clamd', clean: true };
+  }
+
+  /**
+   * Ejecuta un comando antivirus con la ruta del archivo como último argumento
+   *
+   * Sigue la convención de clamscan: 0 es limpio y 1 infectado; cualquier
+   * otra salida es un error del análisis.
+   */
+  private async command(command: string[], context: ProcessorContext) {
+    const [program, ...args] = command;
+    const file = await context.localPath();
+    return new Promise<Record<string, unknown>>((resolve, reject) => {
+      execFile(program, [...args, file], { timeout: this.timeoutMs }, (error, stdout) => {
+        const output = String(stdout).trim();
+        if (!error) return resolve({ engine: 'command', clean: true });
+        if (error.code === 1) return reject(new QuarantineError(`Virus detectado: ${output || program}`, { engine: 'command', output }));
+        reject(new Error(`${program} falló: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Busca la cadena EICAR en todo el contenido (también entre dos bloques)
+   */
+  private async eicar(record: FileRecord, context: ProcessorContext) {
+    let carry = Buffer.alloc(0);
+    for await (const data of await context.storage.read(record.fileId)) {
+      const window = Buffer.concat([carry, data as Buffer]);
+      if (window.includes(EICAR)) {
+        throw new QuarantineError('Virus detectado: EICAR-Test-File', { engine: 'eicar', signature: 'EICAR-Test-File' });
+      }
+      carry = window.subarray(Math.max(0, window.length - EICAR.length + 1));
+    }
+    return { engine: 'eicar', clean: true };
+  }
+}
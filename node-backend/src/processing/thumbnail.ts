@@ -0,0 +1,61 @@
+import fs from 'fs';
+import { execFile } from 'child_process';
+import type { FileRecord } from '../catalog';
+import { resolveInside } from '../naming';
+import type { FileProcessor, ProcessorContext } from './types';
+
+/**
+ * Ruta de la miniatura de un archivo
+ *
+ * @param root - Directorio de miniaturas
+ * @param fileId - ID del archivo
+ */
+export function thumbnailPath(root: string, fileId: string) {
+  return resolveInside(root, `${fileId}.jpg`);
+}
+
+/**
+ * Genera una miniatura JPEG de las imágenes con un comando externo
+ *
+ * El comando se configura como plantilla con `{input}`, `{output}` y
+ * `{size}` (por defecto ImageMagick). Si falla o no está instalado, el
+ * archivo sigue adelante sin miniatura.
+ */
+export class ThumbnailProcessor implements FileProcessor {
+  readonly name = 'thumbnail';
+  readonly required = false;
+
+  /**
+   * @param command - Programa y argumentos con los marcadores `{input}`, `{output}` y `{size}`
+   * @param root - Directorio donde se guardan las miniaturas
+   * @param size - Lado máximo de la miniatura en píxeles
+   * @param timeoutMs - Tiempo máximo del comando
+   */
+  constructor(private command: string[], private root: string, private size: number, private timeoutMs: number) {
+    fs.mkdirSync(root, { recursive: true });
+  }
+
+  appliesTo(record: FileRecord) {
+    return record.mimeType.startsWith('image/');
+  }
+
+  async run(record: FileRecord, context: ProcessorContext) {
+    const input = await context.localPath();
+    const output = thumbnailPath(this.root, record.fileId);
+    const fill = (arg: string) => arg
+      .replace('{input}', input)
+      .replace('{output}', output)
+      .replace(/\{size\}/g, String(this.size));
+    const [program, ...args] = this.command.map(fill);
+
+    await new Promise<void>((resolve, reject) => {
+      execFile(program, args, { timeout: this.timeoutMs }, error => {
+        if (error) reject(new Error(`${program} no generó la miniatura: ${error.message}`));
+        else resolve();
+      });
+    });
+
+    const { size } = await fs.promises.stat(output);
+    return { contentType: 'image/jpeg', maxSize: this.size, bytes: size };
+  }
+}
@@ -0,0 +1,78 @@
+import type { FileRecord } from '../catalog';
+import type { ByteRange, StorageAdapter } from '../storage';
+
+/**
+ * Estado del procesamiento de un archivo tras ensamblarlo
+ *
+ * - pending: en cola, aún no ha empezado
+ * - processing: algún procesador está trabajando (p. ej. el antivirus)
+ * - ready: terminó; el archivo puede descargarse
+ * - quarantined: un procesador lo rechazó; el contenido no se sirve
+ */
+export type ProcessingState = 'pending' | 'processing' | 'ready' | 'quarantined';
+
+/**
+ * Resultado de un procesador sobre un archivo
+ */
+export interface ProcessorResult {
+  status: 'done' | 'skipped' | 'failed' | 'quarantined';
+  data?: Record<string, unknown>;   // Datos que devolvió (metadatos, veredicto del antivirus...)
+  error?: string;                   // failed, quarantined: motivo
+  finishedAt: string;               // Fecha (ISO)
+}
+
+/**
+ * Procesamiento de un archivo tal como se guarda en su registro del catálogo
+ */
+export interface FileProcessing {
+  state: ProcessingState;
+  current?: string;                 // Procesador en marcha
+  results: Record<string, ProcessorResult>; // Por nombre de procesador
+  reason?: string;                  // quarantined: motivo
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Acceso al contenido de un archivo para los procesadores
+ */
+export interface ProcessorContext {
+  storage: StorageAdapter;
+
+  /**
+   * Lee un rango del archivo en memoria (para cabeceras y metadatos, no para el archivo entero)
+   */
+  read(range: ByteRange): Promise<Buffer>;
+
+  /**
+   * Ruta local del archivo para herramientas externas
+   *
+   * Con almacenamiento remoto se descarga una copia temporal la primera vez
+   * que se pide; el pipeline la borra al terminar.
+   */
+  localPath(): Promise<string>;
+}
+
+/**
+ * Procesador de archivos ensamblados
+ *
+ * Cada procesador devuelve los datos que quiere guardar con el archivo. Si
+ * lanza QuarantineError el archivo queda en cuarentena; cualquier otro error
+ * solo lo pone en cuarentena si el procesador es obligatorio (`required`),
+ * y si no se registra y el pipeline sigue con el siguiente.
+ */
+export interface FileProcessor {
+  readonly name: string;
+  readonly required: boolean;
+  appliesTo(record: FileRecord): boolean;
+  run(record: FileRecord, context: ProcessorContext): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Veredicto de un procesador: el archivo no debe servirse (p. ej. tiene un virus)
+ */
+export class QuarantineError extends Error {
+  constructor(message: string, public data?: Record<string, unknown>) {
+    super(message);
+  }
+}
@@ -0,0 +1,107 @@
+import { ApiError } from './errors';
+import type { PartLimits, UploadSession } from './sessions';
+import type { StorageAdapter } from './storage';
+
+/**
+ * Límites de tamaño de las partes para una sesión de partes variables
+ *
+ * El mínimo respeta el del almacenamiento (S3: 5 MB salvo la última parte) y
+ * garantiza que el archivo quepa en su número máximo de partes.
+ *
+ * @param fileSize - Tamaño del archivo en bytes
+ * @param storage - Almacenamiento de la sesión
+ * @param configured - Límites configurados en el servidor
+ */
+export function partLimitsFor(fileSize: number, storage: StorageAdapter, configured: PartLimits): PartLimits {
+  const minBytes = Math.max(configured.minBytes, storage.minPartSize, Math.ceil(fileSize / storage.maxParts));
+  return { minBytes, maxBytes: Math.max(configured.maxBytes, minBytes) };
+}
+
+/**
+ * Número máximo de partes que puede tener una sesión de partes variables
+ *
+ * Todas miden al menos `minBytes` salvo la última.
+ *
+ * @param session - Sesión con `partLimits`
+ */
+export function maxPartCount(session: UploadSession) {
+  return Math.ceil(session.fileSize / session.partLimits!.minBytes);
+}
+
+/**
+ * Valida el offset declarado para una parte variable
+ *
+ * @param session - Sesión con `partLimits`
+ * @param value - Offset tal como llegó en la petición
+ * @returns El offset como número entero
+ */
+export function parsePartOffset(session: UploadSession, value: unknown) {
+  const offset = Number(value);
+  if (value === undefined || value === '' || !Number.isSafeInteger(offset) || offset < 0 || offset >= session.fileSize) {
+    throw new ApiError(400, 'INVALID_PART_OFFSET', `El offset de la parte debe ser un entero entre 0 y ${session.fileSize - 1}`);
+  }
+  return offset;
+}
+
+/**
+ * Tamaño máximo que puede tener una parte variable que empieza en `offset`
+ */
+export function maxPartBytes(session: UploadSession, offset: number) {
+  return Math.min(session.partLimits!.maxBytes, session.fileSize - offset);
+}
+
+/**
+ * Comprueba que una parte variable encaje en el archivo
+ *
+ * Solo la parte que termina el archivo puede medir menos del mínimo, y los
+ * índices deben seguir el orden de los offsets sin solaparse con las partes
+ * ya registradas (salvo la del mismo índice, que se sustituye).
+ *
+ * @param session - Sesión con `partLimits`
+ * @param chunkIndex - Índice de la parte
+ * @param offset - Byte del archivo donde empieza
+ * @param size - Bytes recibidos
+ */
+export function checkPartRange(session: UploadSession, chunkIndex: number, offset: number, size: number) {
+  const { minBytes } = session.partLimits!;
+  const end = offset + size;
+  const maxBytes = maxPartBytes(session, offset);
+  if (size > maxBytes) {
+    throw new ApiError(413, 'CHUNK_TOO_LARGE', `La parte ${chunkIndex} supera el máximo de ${maxBytes} bytes`, { maxBytes });
+  }
+  if (size < minBytes && end !== session.fileSize) {
+    throw new ApiError(400, 'CHUNK_TOO_SMALL', `La parte ${chunkIndex} debe medir al menos ${minBytes} bytes salvo si termina el archivo`, { minBytes });
+  }
+
+  for (const [key, range] of Object.entries(session.partRanges ?? {})) {
+    const index = Number(key);
+    if (index === chunkIndex) continue;
+    const ordered = index < chunkIndex ? range.offset + range.size <= offset : range.offset >= end;
+    if (!ordered) {
+      throw new ApiError(409, 'PART_OVERLAP', `La parte ${chunkIndex} (bytes ${offset}-${end - 1}) se solapa con la parte ${index}`, {
+        chunkIndex: index, offset: range.offset, size: range.size,
+      });
+    }
+  }
+}
+
+/**
+ * Primer hueco en la cobertura del archivo por las partes variables
+ *
+ * Las partes, en orden de índice, deben ir seguidas desde el byte 0 hasta el
+ * final del archivo.
+ *
+ * @param session - Sesión con `partLimits`
+ * @returns Número de partes si cubren el archivo, o el índice y offset de la que falta
+ */
+export function coverage(session: UploadSession): { totalChunks: number } | { chunkIndex: number; offset: number } {
+  let offset = 0;
+  let chunkIndex = 0;
+  while (offset < session.fileSize) {
+    const range = session.partRanges?.[chunkIndex];
+    if (!range || range.offset !== offset) return { chunkIndex, offset };
+    offset += range.size;
+    chunkIndex++;
+  }
+  return { totalChunks: chunkIndex };
+}
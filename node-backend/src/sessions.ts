@@ -0,0 +1,328 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { AssemblyResult } from './assembly';
+import { logger } from './logger';
+
+/**
+ * Estado de una sesión de subida
+ *
+ * - open: admite chunks
+ * - assembling: el servidor está ensamblando el archivo final
+ * - complete: archivo final creado
+ * - expired: la sesión caducó y ya no puede reanudarse
+ * - aborted: el cliente canceló la subida y se descartaron sus chunks
+ */
+export type SessionState = 'open' | 'assembling' | 'complete' | 'expired' | 'aborted';
+
+/**
+ * Tramo del archivo que ocupa una parte
+ */
+export interface PartRange {
+  offset: number;            // Byte del archivo donde empieza la parte
+  size: number;              // Bytes de la parte
+}
+
+/**
+ * Límites de tamaño de las partes en una sesión de partes variables
+ *
+ * Todas las partes deben medir entre `minBytes` y `maxBytes` salvo la que
+ * termina el archivo, que puede ser menor.
+ */
+export interface PartLimits {
+  minBytes: number;
+  maxBytes: number;
+}
+
+/**
+ * Registro persistente de una sesión de subida
+ */
+export interface UploadSession {
+  uploadId: string;          // ID único de la sesión
+  fileName: string;          // Nombre original del archivo
+  relativeDir: string;       // Carpeta relativa dentro de uploads/ (carpetas soltadas)
+  fileSize: number;          // Tamaño declarado en bytes
+  mimeType: string;          // Tipo MIME declarado por el cliente
+  chunkSize: number;         // Tamaño de chunk acordado (con partes variables, solo el tamaño sugerido)
+  totalChunks: number;       // Número de chunks acordado (con partes variables, se fija al completar)
+  owner: string;             // Usuario que creó la sesión
+  fingerprint: string;       // Huella del archivo enviada por el cliente
+  fileId: string;            // ID que tendrá el archivo final en el almacenamiento
+  storageRef?: string;       // Referencia propia del almacenamiento (p. ej. multipart upload de S3)
+  tus?: { metadata?: string }; // Subida creada con el protocolo tus (con su Upload-Metadata original)
+  partLimits?: PartLimits;   // Sesión de partes de tamaño variable y sus límites
+  partRanges?: Record<number, PartRange>; // Offset y tamaño de cada parte variable almacenada
+  receivedChunks: number[];  // Índices de chunks ya almacenados
+  chunkHashes: Record<number, string>; // SHA-256 de cada chunk almacenado
+  state: SessionState;       // Estado actual de la sesión
+  result?: AssemblyResult;   // Archivo final, una vez ensamblado
+  createdAt: string;         // Fecha de creación (ISO)
+  updatedAt: string;         // Última modificación (ISO)
+  expiresAt: string;         // Caducidad si no llegan más chunks (ISO)
+}
+
+/**
+ * Tamaño exacto en bytes que debe tener un chunk según el contrato de la sesión
+ *
+ * Todos los chunks miden `chunkSize` salvo el último, que contiene el resto.
+ *
+ * @param session - Sesión de subida
+ * @param chunkIndex - Índice del chunk (0-based, dentro de rango)
+ */
+export function expectedChunkBytes(session: UploadSession, chunkIndex: number) {
+  return Math.min(session.chunkSize, session.fileSize - chunkIndex * session.chunkSize);
+}
+
+/**
+ * Tramo del archivo que ocupa un chunk ya almacenado
+ *
+ * En sesiones de tamaño fijo se deduce del índice; en las de partes variables
+ * es el registrado al recibir la parte.
+ *
+ * @param session - Sesión de subida
+ * @param chunkIndex - Índice del chunk
+ * @returns Offset y tamaño, o undefined si la parte variable no está registrada
+ */
+export function partRange(session: UploadSession, chunkIndex: number): PartRange | undefined {
+  if (session.partLimits) return session.partRanges?.[chunkIndex];
+  return { offset: chunkIndex * session.chunkSize, size: expectedChunkBytes(session, chunkIndex) };
+}
+
+/**
+ * Indica si una sesión está caducada o ha superado su caducidad sin marcarse aún
+ *
+ * @param session - Sesión de subida
+ * @param now - Instante de referencia (ms)
+ */
+export function isExpired(session: UploadSession, now = Date.now()) {
+  return session.state === 'expired' || (session.state === 'open' && Date.parse(session.expiresAt) <= now);
+}
+
+/**
+ * Almacén de sesiones de subida persistido en disco
+ *
+ * Cada sesión se guarda como `<uploadId>.json` dentro del directorio raíz,
+ * de modo que sobrevive a reinicios del servidor. Se mantiene además un
+ * índice en memoria para búsquedas rápidas.
+ */
+export class SessionStore {
+  private sessions = new Map<string, UploadSession>();
+
+  /**
+   * @param root - Directorio donde se guardan las sesiones
+   * @param ttlMs - Vida de una sesión abierta desde su último chunk
+   */
+  constructor(private root: string, private ttlMs: number) {
+    fs.mkdirSync(root, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Carga en memoria todas las sesiones guardadas en disco
+   */
+  private load() {
+    for (const f of fs.readdirSync(this.root)) {
+      if (!f.endsWith('.json')) continue;
+      try {
+        const session = JSON.parse(fs.readFileSync(path.join(this.root, f), 'utf8')) as UploadSession;
+        // Sesiones creadas antes de registrar el contrato completo
+        session.totalChunks ??= Math.ceil(session.fileSize / session.chunkSize);
+        session.owner ??= 'anonymous';
+        session.relativeDir ??= '';
+        session.expiresAt ??= this.expiryFrom(Date.parse(session.updatedAt));
+        session.fileId ??= crypto.randomBytes(16).toString('hex');
+        this.sessions.set(session.uploadId, session);
+
+        // Un ensamblado interrumpido por un reinicio no continúa: la sesión vuelve a quedar abierta
+        if (session.state === 'assembling') this.update(session.uploadId, { state: 'open' });
+      } catch (error) {
+        logger.error('Sesión corrupta ignorada', { file: f, error });
+      }
+    }
+    logger.info('Sesiones cargadas', { sessions: this.sessions.size });
+  }
+
+  /**
+   * Escribe la sesión en disco de forma atómica (archivo temporal + rename)
+   */
+  private persist(session: UploadSession) {
+    const file = path.join(this.root, `${session.uploadId}.json`);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(session, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  private expiryFrom(time: number) {
+    return new Date(time + this.ttlMs).toISOString();
+  }
+
+  /**
+   * Crea y guarda una nueva sesión
+   *
+   * @param data - Datos de la sesión sin campos calculados
+   * @returns La sesión creada
+   */
+  create(data: Omit<UploadSession, 'receivedChunks' | 'chunkHashes' | 'state' | 'createdAt' | 'updatedAt' | 'expiresAt'>) {
+    const time = Date.now();
+    const now = new Date(time).toISOString();
+    const session: UploadSession = {
+      ...data, receivedChunks: [], chunkHashes: {}, state: 'open', createdAt: now, updatedAt: now, expiresAt: this.expiryFrom(time),
+    };
+    this.sessions.set(session.uploadId, session);
+    this.persist(session);
+    return session;
+  }
+
+  get(uploadId: string) {
+    return this.sessions.get(uploadId);
+  }
+
+  list() {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Busca una sesión abierta para el mismo archivo
+   *
+   * @param owner - Usuario que solicita la subida
+   * @param fingerprint - Huella del archivo enviada por el cliente
+   * @param fileName - Nombre del archivo
+   * @param fileSize - Tamaño del archivo en bytes
+   * @returns La sesión más reciente que coincida, si existe
+   */
+  findResumable(owner: string, fingerprint: string, fileName: string, fileSize: number) {
+    let match: UploadSession | undefined;
+    for (const s of this.sessions.values()) {
+      if (s.state !== 'open' || isExpired(s) || s.owner !== owner) continue;
+      if (s.fingerprint !== fingerprint || s.fileName !== fileName || s.fileSize !== fileSize) continue;
+      // Las subidas tus se reanudan por su URL, nunca por huella
+      if (s.tus) continue;
+      if (!match || s.updatedAt > match.updatedAt) match = s;
+    }
+    return match;
+  }
+
+  /**
+   * Bytes reservados por un usuario en subidas aún no completadas
+   *
+   * Los archivos ya completados se cuentan en el catálogo.
+   *
+   * @param owner - Usuario propietario de las sesiones
+   */
+  bytesByOwner(owner: string) {
+    let total = 0;
+    for (const s of this.sessions.values()) {
+      if (s.owner === owner && (s.state === 'open' || s.state === 'assembling')) total += s.fileSize;
+    }
+    return total;
+  }
+
+  /**
+   * Bytes de chunks ya almacenados por las subidas en curso
+   */
+  storedBytes() {
+    let total = 0;
+    for (const s of this.sessions.values()) {
+      if (s.state !== 'open' && s.state !== 'assembling') continue;
+      for (const i of s.receivedChunks) total += partRange(s, i)?.size ?? 0;
+    }
+    return total;
+  }
+
+  /**
+   * Registra un chunk recibido para la sesión y renueva su caducidad
+   *
+   * @param uploadId - ID de la sesión
+   * @param chunkIndex - Índice del chunk almacenado
+   * @param hash - SHA-256 del contenido almacenado
+   * @param range - Tramo del archivo que ocupa (solo en sesiones de partes variables)
+   */
+  markChunk(uploadId: string, chunkIndex: number, hash: string, range?: PartRange) {
+    const session = this.sessions.get(uploadId);
+    if (!session) return;
+    if (!session.receivedChunks.includes(chunkIndex)) {
+      session.receivedChunks.push(chunkIndex);
+      session.receivedChunks.sort((a, b) => a - b);
+    }
+    session.chunkHashes = { ...session.chunkHashes, [chunkIndex]: hash };
+    if (range) session.partRanges = { ...session.partRanges, [chunkIndex]: range };
+    session.updatedAt = new Date().toISOString();
+    session.expiresAt = this.expiryFrom(Date.now());
+    this.persist(session);
+  }
+
+  /**
+   * Renueva la caducidad de una sesión abierta (p. ej. al reanudarla)
+   *
+   * @param uploadId - ID de la sesión
+   */
+  touch(uploadId: string) {
+    return this.update(uploadId, { expiresAt: this.expiryFrom(Date.now()) });
+  }
+
+  /**
+   * Elimina un chunk del registro (p. ej. porque su parte en disco está corrupta)
+   *
+   * @param uploadId - ID de la sesión
+   * @param chunkIndex - Índice del chunk a descartar
+   */
+  dropChunk(uploadId: string, chunkIndex: number) {
+    const session = this.sessions.get(uploadId);
+    if (!session) return;
+    session.receivedChunks = session.receivedChunks.filter(i => i !== chunkIndex);
+    const { [chunkIndex]: _dropped, ...rest } = session.chunkHashes || {};
+    session.chunkHashes = rest;
+    if (session.partRanges) {
+      const { [chunkIndex]: _range, ...ranges } = session.partRanges;
+      session.partRanges = ranges;
+    }
+    session.updatedAt = new Date().toISOString();
+    this.persist(session);
+  }
+
+  /**
+   * Conserva en el registro solo los chunks indicados (p. ej. los que siguen en el almacenamiento)
+   *
+   * @param uploadId - ID de la sesión
+   * @param present - Índices de los chunks a conservar
+   * @returns Índices que siguen registrados
+   */
+  retainChunks(uploadId: string, present: Set<number>) {
+    const session = this.sessions.get(uploadId);
+    if (!session) return [];
+    const kept = session.receivedChunks.filter(i => present.has(i));
+    for (const i of session.receivedChunks) {
+      if (!present.has(i)) this.dropChunk(uploadId, i);
+    }
+    return kept;
+  }
+
+  /**
+   * Borra las sesiones terminadas (caducadas, canceladas o completadas) sin cambios desde `olderThan`
+   *
+   * @param olderThan - Instante límite (ms)
+   * @returns IDs de las sesiones borradas
+   */
+  purge(olderThan: number) {
+    const removed: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.state === 'open' || session.state === 'assembling') continue;
+      if (Date.parse(session.updatedAt) > olderThan) continue;
+      this.sessions.delete(session.uploadId);
+      fs.rmSync(path.join(this.root, `${session.uploadId}.json`), { force: true });
+      removed.push(session.uploadId);
+    }
+    return removed;
+  }
+
+  /**
+   * Actualiza campos de la sesión y la persiste
+   */
+  update(uploadId: string, patch: Partial<UploadSession>) {
+    const session = this.sessions.get(uploadId);
+    if (!session) return;
+    Object.assign(session, patch, { updatedAt: new Date().toISOString() });
+    this.persist(session);
+    return session;
+  }
+}
@@ -0,0 +1,25 @@
+import path from 'path';
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3_BUCKET, S3_ENDPOINT, S3_PREFIX, S3_REGION, STORAGE_BACKEND, TEMP_ROOT, UPLOAD_ROOT } from '../config';
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import type { StorageAdapter } from './types';
+
+export type { ByteRange, PendingPart, StorageAdapter, StoredPart } from './types';
+
+/**
+ * Crea el almacenamiento configurado con `STORAGE_BACKEND`
+ *
+ * Con `s3` las credenciales se toman de la cadena estándar del SDK
+ * (`AWS_ACCESS_KEY_ID`/`AWS_SECRET_ACCESS_KEY`, perfil, rol...). Con un
+ * `S3_ENDPOINT` propio (MinIO, etc.) se usan URLs de estilo ruta. Los chunks
+ * pendientes de subir a S3 esperan en `<TEMP_ROOT>/s3`.
+ */
+export function createStorage(): StorageAdapter {
+  if (STORAGE_BACKEND === 's3') {
+    if (!S3_BUCKET) throw new Error('Falta S3_BUCKET para el almacenamiento s3');
+    const client = new S3Client({ region: S3_REGION, endpoint: S3_ENDPOINT, forcePathStyle: !!S3_ENDPOINT });
+    return new S3Storage(client, S3_BUCKET, path.join(TEMP_ROOT, 's3'), S3_PREFIX);
+  }
+  return new LocalStorage(UPLOAD_ROOT, TEMP_ROOT);
+}
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import { assembleParts } from '../assembly';
+import { resolveInside } from '../naming';
+import { receivePart } from '../parts';
+import type { UploadSession } from '../sessions';
+import type { AssembleOptions, ByteRange, PendingPart, StorageAdapter, StoredPart } from './types';
+import { logger } from '../logger';
+
+/**
+ * Almacenamiento en disco local
+ *
+ * Los chunks de cada sesión se guardan en `<tempRoot>/<uploadId>/part_<n>` y
+ * los archivos finales en `<uploadRoot>/<fileId>`.
+ */
+export class LocalStorage implements StorageAdapter {
+  readonly name = 'local';
+  readonly minPartSize = 1;
+  readonly maxParts = Number.MAX_SAFE_INTEGER;
+
+  constructor(private uploadRoot: string, private tempRoot: string) {
+    fs.mkdirSync(uploadRoot, { recursive: true });
+    fs.mkdirSync(tempRoot, { recursive: true });
+  }
+
+  private dirOf(session: UploadSession) {
+    return resolveInside(this.tempRoot, session.uploadId);
+  }
+
+  private filePath(fileId: string) {
+    return resolveInside(this.uploadRoot, fileId);
+  }
+
+  async createSession(session: UploadSession) {
+    await fs.promises.mkdir(this.dirOf(session), { recursive: true });
+    return undefined;
+  }
+
+  /**
+   * Escribe el chunk en un archivo temporal oculto; al confirmarlo se
+   * renombra de forma atómica a `part_<index>`
+   */
+  async writePart(session: UploadSession, source: Readable, maxBytes: number): Promise<PendingPart> {
+    const dir = this.dirOf(session);
+    await fs.promises.mkdir(dir, { recursive: true });
+    const tmpPath = path.join(dir, `.${crypto.randomBytes(8).toString('hex')}.partial`);
+
+    try {
+      const { size, hash, head } = await receivePart(source, fs.createWriteStream(tmpPath, { flags: 'wx' }), maxBytes);
+      return {
+        size,
+        hash,
+        head,
+        commit: chunkIndex => fs.promises.rename(tmpPath, path.join(dir, `part_${chunkIndex}`)),
+        discard: () => fs.promises.rm(tmpPath, { force: true }),
+      };
+    } catch (error) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  async listParts(session: UploadSession) {
+    const dir = this.dirOf(session);
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const parts: StoredPart[] = [];
+    for (const name of names) {
+      const match = /^part_(\d+)$/.exec(name);
+      if (!match) continue;
+      const stat = await fs.promises.stat(path.join(dir, name)).catch(() => undefined);
+      if (stat) parts.push({ index: Number(match[1]), size: stat.size });
+    }
+    return parts.sort((a, b) => a.index - b.index);
+  }
+
+  async deletePart(session: UploadSession, chunkIndex: number) {
+    await fs.promises.rm(path.join(this.dirOf(session), `part_${chunkIndex}`), { force: true });
+  }
+
+  async assemble(session: UploadSession, options: AssembleOptions) {
+    const dir = this.dirOf(session);
+    const result = await assembleParts({ dir, totalChunks: session.totalChunks, outPath: this.filePath(session.fileId), ...options });
+
+    // Limpia los archivos temporales usados para la subida
+    try {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      logger.debug('Temporales del ensamblado eliminados', { uploadId: session.uploadId });
+    } catch (cleanupError) {
+      logger.error('Error en limpieza', { uploadId: session.uploadId, error: cleanupError });
+    }
+    return result;
+  }
+
+  async abort(session: UploadSession) {
+    await fs.promises.rm(this.dirOf(session), { recursive: true, force: true });
+  }
+
+  async sweepOrphans(liveSessions: UploadSession[], olderThan: number) {
+    const live = new Set(liveSessions.map(s => s.uploadId));
+    let removed = 0;
+    for (const name of await fs.promises.readdir(this.tempRoot)) {
+      if (live.has(name)) continue;
+      const dir = path.join(this.tempRoot, name);
+      const stat = await fs.promises.stat(dir).catch(() => undefined);
+      if (!stat || stat.mtimeMs > olderThan) continue;
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  async read(fileId: string, range?: ByteRange) {
+    const filePath = this.filePath(fileId);
+    // Falla aquí (y no al leer) si el archivo no existe
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath, range);
+  }
+
+  async deleteFile(fileId: string) {
+    await fs.promises.rm(this.filePath(fileId), { force: true });
+  }
+
+  locate(fileId: string) {
+    return this.filePath(fileId);
+  }
+}
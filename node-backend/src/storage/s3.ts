@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  Part,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { AssemblyError } from '../assembly';
+import { receivePart } from '../parts';
+import { UploadSession, partRange } from '../sessions';
+import type { AssembleOptions, ByteRange, PendingPart, StorageAdapter } from './types';
+
+const MB = 1024 * 1024;
+
+// Byte del archivo donde termina una parte
+function partEnd(session: UploadSession, chunkIndex: number) {
+  const range = partRange(session, chunkIndex);
+  return range ? range.offset + range.size : session.fileSize;
+}
+
+/**
+ * Almacenamiento en un bucket compatible con S3 (AWS S3, MinIO, ...)
+ *
+ * Cada sesión es un multipart upload sobre la clave `<prefix>files/<fileId>`:
+ * cada chunk es un UploadPart (número de parte = índice + 1) y el ensamblado
+ * es un CompleteMultipartUpload. El ID del multipart upload se guarda en la
+ * sesión como `storageRef`.
+ *
+ * Los chunks se reciben primero en archivos temporales de `spoolRoot` (como
+ * mucho un chunk por petición en curso) y se suben a S3 desde el disco, sin
+ * retenerlos en memoria.
+ */
+export class S3Storage implements StorageAdapter {
+  readonly name = 's3';
+  readonly minPartSize = 5 * MB;   // Límite de S3 para todas las partes salvo la última
+  readonly maxParts = 10000;       // Límite de S3 de partes por multipart upload
+
+  // Partes descartadas con deletePart, por multipart upload; dejan de contar hasta que se reenvía el chunk
+  private dropped = new Map<string, Set<number>>();
+  // Archivo temporal de cada chunk que se está subiendo, por `<uploadId>:<índice>`
+  private spooled = new Map<string, string>();
+
+  /**
+   * @param spoolRoot - Directorio local para los chunks aún no confirmados
+   */
+  constructor(private client: S3Client, private bucket: string, private spoolRoot: string, private prefix = '') {
+    // Las partes pendientes no sobreviven a un reinicio: lo que quede en el directorio son restos
+    fs.rmSync(spoolRoot, { recursive: true, force: true });
+    fs.mkdirSync(spoolRoot, { recursive: true });
+  }
+
+  private keyOf(fileId: string) {
+    return `${this.prefix}files/${fileId}`;
+  }
+
+  private multipartOf(session: UploadSession) {
+    if (!session.storageRef) throw new Error(`La sesión ${session.uploadId} no tiene multipart upload`);
+    return { Bucket: this.bucket, Key: this.keyOf(session.fileId), UploadId: session.storageRef };
+  }
+
+  async createSession(session: UploadSession) {
+    const out = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: this.keyOf(session.fileId),
+      ContentType: session.mimeType,
+      ChecksumAlgorithm: 'SHA256',
+    }));
+    return out.UploadId;
+  }
+
+  /**
+   * Recibe el chunk en un archivo temporal (como mucho `maxBytes`) para poder
+   * verificarlo antes de enviarlo; al confirmarlo se sube como UploadPart en
+   * streaming, con su tamaño y su SHA-256 para que S3 rechace una parte
+   * corrompida por el camino
+   */
+  async writePart(session: UploadSession, source: Readable, maxBytes: number): Promise<PendingPart> {
+    const tmpPath = path.join(this.spoolRoot, `${session.uploadId}.${crypto.randomBytes(8).toString('hex')}.partial`);
+
+    try {
+      const { size, hash, head } = await receivePart(source, fs.createWriteStream(tmpPath, { flags: 'wx' }), maxBytes);
+      return {
+        size,
+        hash,
+        head,
+        commit: async chunkIndex => {
+          const key = `${session.storageRef}:${chunkIndex}`;
+          this.spooled.set(key, tmpPath);
+          try {
+            await this.client.send(new UploadPartCommand({
+              ...this.multipartOf(session),
+              PartNumber: chunkIndex + 1,
+              Body: fs.createReadStream(tmpPath),
+              ContentLength: size,
+              ChecksumSHA256: Buffer.from(hash, 'hex').toString('base64'),
+            }));
+            // La parte nueva sobrescribe la descartada
+            this.dropped.get(session.storageRef!)?.delete(chunkIndex);
+          } finally {
+            if (this.spooled.get(key) === tmpPath) this.spooled.delete(key);
+            await fs.promises.rm(tmpPath, { force: true });
+          }
+        },
+        discard: () => fs.promises.rm(tmpPath, { force: true }),
+      };
+    } catch (error) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Todas las partes vigentes del multipart upload (ListParts devuelve páginas
+   * de hasta 1000), sin las descartadas con deletePart
+   */
+  private async allParts(session: UploadSession) {
+    const parts: Part[] = [];
+    const dropped = this.dropped.get(session.storageRef!);
+    let marker: string | undefined;
+    do {
+      const out = await this.client.send(new ListPartsCommand({ ...this.multipartOf(session), PartNumberMarker: marker }));
+      parts.push(...(out.Parts ?? []).filter(p => !dropped?.has(p.PartNumber! - 1)));
+      marker = out.IsTruncated ? out.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  }
+
+  async listParts(session: UploadSession) {
+    try {
+      const parts = await this.allParts(session);
+      return parts.map(p => ({ index: p.PartNumber! - 1, size: p.Size ?? 0 }));
+    } catch (error) {
+      if ((error as Error).name === 'NoSuchUpload') return [];
+      throw error;
+    }
+  }
+
+  /**
+   * S3 no permite borrar partes sueltas: la parte se marca como descartada
+   * (no aparece en listParts ni entra en el CompleteMultipartUpload) hasta
+   * que el chunk se reenvía y la sobrescribe, y se borra su archivo temporal
+   * si aún se está subiendo
+   */
+  async deletePart(session: UploadSession, chunkIndex: number) {
+    if (!session.storageRef) return;
+    const dropped = this.dropped.get(session.storageRef) ?? new Set<number>();
+    dropped.add(chunkIndex);
+    this.dropped.set(session.storageRef, dropped);
+
+    const key = `${session.storageRef}:${chunkIndex}`;
+    const tmpPath = this.spooled.get(key);
+    if (tmpPath) {
+      this.spooled.delete(key);
+      await fs.promises.rm(tmpPath, { force: true });
+    }
+  }
+
+  async assemble(session: UploadSession, options: AssembleOptions) {
+    const { fileHash, onProgress } = options;
+    const parts = new Map((await this.allParts(session)).map(p => [p.PartNumber! - 1, p]));
+    for (let i = 0; i < session.totalChunks; i++) {
+      if (!parts.has(i)) throw new AssemblyError(`Falta chunk ${i}`, 'MISSING_CHUNK', i);
+    }
+
+    await this.client.send(new CompleteMultipartUploadCommand({
+      ...this.multipartOf(session),
+      MultipartUpload: {
+        Parts: Array.from({ length: session.totalChunks }, (_, i) => ({
+          PartNumber: i + 1, ETag: parts.get(i)!.ETag, ChecksumSHA256: parts.get(i)!.ChecksumSHA256,
+        })),
+      },
+    }));
+    this.dropped.delete(session.storageRef!);
+
+    // Relee el objeto ya cerrado para obtener su SHA-256 real
+    const digest = crypto.createHash('sha256');
+    let processedBytes = 0;
+    let processedChunks = 0;
+    try {
+      for await (const data of await this.read(session.fileId)) {
+        digest.update(data);
+        processedBytes += data.length;
+        // Las partes pueden tener tamaños distintos: se cuentan las que ya se leyeron enteras
+        while (processedChunks < session.totalChunks && processedBytes >= partEnd(session, processedChunks)) processedChunks++;
+        onProgress?.(processedChunks, processedBytes);
+      }
+    } catch (error) {
+      // El multipart upload ya se cerró: sus partes no existen y la sesión no puede volver a ensamblarse con ellas
+      const failure = new AssemblyError(`No se pudo verificar el archivo ensamblado: ${(error as Error).message}`, 'UPLOAD_RESTARTED');
+      failure.released = true;
+      throw failure;
+    }
+    onProgress?.(session.totalChunks, processedBytes);
+
+    // El hash real solo existe una vez cerrado el objeto: si no coincide, tampoco quedan partes que reutilizar
+    const sha256 = digest.digest('hex');
+    if (fileHash && fileHash.toLowerCase() !== sha256) {
+      const failure = new AssemblyError('El hash del archivo no coincide', 'FILE_HASH_MISMATCH');
+      failure.released = true;
+      throw failure;
+    }
+    return { sha256 };
+  }
+
+  async abort(session: UploadSession) {
+    if (!session.storageRef) return;
+    this.dropped.delete(session.storageRef);
+    try {
+      await this.client.send(new AbortMultipartUploadCommand(this.multipartOf(session)));
+    } catch (error) {
+      if ((error as Error).name !== 'NoSuchUpload') throw error;
+    }
+  }
+
+  async sweepOrphans(liveSessions: UploadSession[], olderThan: number) {
+    const live = new Set(liveSessions.map(s => s.storageRef));
+    let removed = 0;
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+    do {
+      const out = await this.client.send(new ListMultipartUploadsCommand({
+        Bucket: this.bucket,
+        Prefix: `${this.prefix}files/`,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      }));
+      for (const upload of out.Uploads ?? []) {
+        if (live.has(upload.UploadId) || (upload.Initiated && upload.Initiated.getTime() > olderThan)) continue;
+        await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: upload.Key, UploadId: upload.UploadId }));
+        removed++;
+      }
+      keyMarker = out.IsTruncated ? out.NextKeyMarker : undefined;
+      uploadIdMarker = out.IsTruncated ? out.NextUploadIdMarker : undefined;
+    } while (keyMarker);
+    return removed;
+  }
+
+  async read(fileId: string, range?: ByteRange) {
+    const out = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.keyOf(fileId),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return out.Body as Readable;
+  }
+
+  async deleteFile(fileId: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.keyOf(fileId) }));
+  }
+
+  locate(fileId: string) {
+    return `s3://${this.bucket}/${this.keyOf(fileId)}`;
+  }
+}
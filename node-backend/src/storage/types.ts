@@ -0,0 +1,110 @@
+import type { Readable } from 'stream';
+import type { UploadSession } from '../sessions';
+
+/**
+ * Parte de un chunk ya recibida y verificable, pendiente de confirmar
+ *
+ * El servidor comprueba tamaño y hash antes de llamar a `commit`; si algo
+ * falla llama a `discard` y la parte no llega a contar en la sesión.
+ */
+export interface PendingPart {
+  size: number;                                  // Bytes recibidos
+  hash: string;                                  // SHA-256 calculado mientras se recibía
+  head: Buffer;                                  // Primeros bytes, para reconocer el tipo real del archivo
+  commit(chunkIndex: number): Promise<void>;     // Guarda la parte como chunk `chunkIndex`
+  discard(): Promise<void>;                      // Descarta la parte
+}
+
+/**
+ * Chunk ya guardado en el almacenamiento
+ */
+export interface StoredPart {
+  index: number;
+  size: number;
+}
+
+/**
+ * Rango de bytes (ambos extremos incluidos)
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Opciones del ensamblado de una sesión
+ */
+export interface AssembleOptions {
+  chunkHashes: Record<number, string>;           // Hashes registrados al recibir cada chunk
+  fileHash?: string;                             // SHA-256 esperado del archivo completo (opcional)
+  onProgress?: (processedChunks: number, processedBytes: number) => void;
+}
+
+/**
+ * Almacenamiento de chunks y archivos finales
+ *
+ * Cubre el ciclo de vida completo de una subida: crear la sesión, escribir y
+ * listar partes, ensamblarlas en el archivo final, abortar, y leer o borrar
+ * archivos ya subidos. Los archivos finales se identifican por su `fileId`.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  readonly minPartSize: number;                  // Tamaño mínimo de un chunk que no sea el último
+  readonly maxParts: number;                     // Número máximo de chunks por archivo
+
+  /**
+   * Prepara el almacenamiento de una sesión nueva
+   *
+   * @returns Referencia propia del almacenamiento a guardar en la sesión, si la hay
+   */
+  createSession(session: UploadSession): Promise<string | undefined>;
+
+  /**
+   * Recibe los bytes de un chunk respetando `maxBytes` y calculando su hash
+   */
+  writePart(session: UploadSession, source: Readable, maxBytes: number): Promise<PendingPart>;
+
+  listParts(session: UploadSession): Promise<StoredPart[]>;
+
+  /**
+   * Descarta un chunk guardado (p. ej. porque está corrupto)
+   */
+  deletePart(session: UploadSession, chunkIndex: number): Promise<void>;
+
+  /**
+   * Une los chunks en el archivo final `session.fileId` y libera las partes
+   *
+   * Si el SHA-256 del archivo final no coincide con `fileHash` falla con
+   * FILE_HASH_MISMATCH; un fallo con `released` indica que las partes ya se
+   * consumieron y la sesión no puede volver a ensamblarse con ellas.
+   *
+   * @returns SHA-256 del archivo final
+   */
+  assemble(session: UploadSession, options: AssembleOptions): Promise<{ sha256: string }>;
+
+  /**
+   * Descarta todas las partes de una sesión cancelada o caducada
+   */
+  abort(session: UploadSession): Promise<void>;
+
+  /**
+   * Borra partes que no pertenecen a ninguna de las sesiones vivas
+   *
+   * Solo toca lo creado antes de `olderThan`, para no competir con una
+   * sesión que se está creando mientras se barre.
+   *
+   * @param liveSessions - Sesiones abiertas o ensamblándose
+   * @param olderThan - Instante límite (ms)
+   * @returns Número de sesiones huérfanas limpiadas
+   */
+  sweepOrphans(liveSessions: UploadSession[], olderThan: number): Promise<number>;
+
+  read(fileId: string, range?: ByteRange): Promise<Readable>;
+
+  deleteFile(fileId: string): Promise<void>;
+
+  /**
+   * Ubicación legible del archivo final (ruta o URL del objeto)
+   */
+  locate(fileId: string): string;
+}
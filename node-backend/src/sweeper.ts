@@ -0,0 +1,92 @@
+import { SessionStore, isExpired } from './sessions';
+import type { StorageAdapter } from './storage';
+import type { TusTails } from './tus';
+import type { UploadEvents } from './events';
+import { WebhookDispatcher, uploadData } from './webhooks';
+import { logger } from './logger';
+
+// Margen antes de considerar huérfanas unas partes sin sesión (la sesión puede estar creándose)
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+/**
+ * Marca una sesión como caducada, lo notifica y borra sus chunks temporales
+ *
+ * @param sessions - Almacén de sesiones
+ * @param storage - Almacenamiento de los chunks
+ * @param events - Bus de eventos de las sesiones
+ * @param webhooks - Notificaciones salientes
+ * @param uploadId - ID de la sesión caducada
+ */
+export async function expireSession(sessions: SessionStore, storage: StorageAdapter, events: UploadEvents, webhooks: WebhookDispatcher, uploadId: string) {
+  // Se marca antes de borrar para que no se acepten más chunks durante la limpieza
+  const session = sessions.update(uploadId, { state: 'expired', receivedChunks: [], chunkHashes: {} });
+  if (!session) return;
+  events.publish(session, 'expired');
+  webhooks.dispatch('upload.expired', { upload: uploadData(session) });
+  await storage.abort(session);
+  logger.info('Sesión caducada y temporales eliminados', { uploadId });
+}
+
+/**
+ * Caduca las sesiones abiertas sin actividad, borra las sesiones terminadas
+ * hace más de `retentionMs` y borra temporales huérfanos
+ *
+ * Unas partes son huérfanas si no tienen sesión o si su sesión ya no está
+ * abierta ni ensamblándose (p. ej. restos de una limpieza interrumpida).
+ *
+ * @param sessions - Almacén de sesiones
+ * @param storage - Almacenamiento de los chunks
+ * @param tails - Colas de las subidas tus
+ * @param events - Bus de eventos de las sesiones
+ * @param webhooks - Notificaciones salientes
+ * @param retentionMs - Tiempo que se conservan las sesiones terminadas
+ * @returns Número de sesiones caducadas, de sesiones borradas y de sesiones huérfanas limpiadas
+ */
+export async function sweepTemp(sessions: SessionStore, storage: StorageAdapter, tails: TusTails, events: UploadEvents, webhooks: WebhookDispatcher, retentionMs: number) {
+  let expired = 0;
+  const now = Date.now();
+
+  for (const session of sessions.list()) {
+    if (session.state === 'open' && isExpired(session, now)) {
+      await expireSession(sessions, storage, events, webhooks, session.uploadId);
+      expired++;
+    }
+  }
+
+  const purged = sessions.purge(now - retentionMs).length;
+
+  const live = sessions.list().filter(s => s.state === 'open' || s.state === 'assembling');
+  const orphans = await storage.sweepOrphans(live, now - ORPHAN_GRACE_MS) + await tails.sweep(live, now - ORPHAN_GRACE_MS);
+
+  return { expired, purged, orphans };
+}
+
+/**
+ * Arranca el barrido periódico de temporales
+ *
+ * @param sessions - Almacén de sesiones
+ * @param storage - Almacenamiento de los chunks
+ * @param tails - Colas de las subidas tus
+ * @param events - Bus de eventos de las sesiones
+ * @param webhooks - Notificaciones salientes
+ * @param retentionMs - Tiempo que se conservan las sesiones terminadas
+ * @param intervalMs - Intervalo entre barridos
+ */
+export function startSweeper(sessions: SessionStore, storage: StorageAdapter, tails: TusTails, events: UploadEvents, webhooks: WebhookDispatcher, retentionMs: number, intervalMs: number) {
+  let running = false;
+  const sweep = async () => {
+    // Evita solapar barridos si uno tarda más que el intervalo
+    if (running) return;
+    running = true;
+    try {
+      const { expired, purged, orphans } = await sweepTemp(sessions, storage, tails, events, webhooks, retentionMs);
+      if (expired || purged || orphans) logger.info('Barrido de temporales', { expired, purged, orphans });
+    } catch (error) {
+      logger.error('Error en el barrido de temporales', { error });
+    } finally {
+      running = false;
+    }
+  };
+  sweep();
+  return setInterval(sweep, intervalMs).unref();
+}
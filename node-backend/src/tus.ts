@@ -0,0 +1,271 @@
+import fs from 'fs';
+import type { FileHandle } from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable, Writable, pipeline } from 'stream';
+import { ApiError } from './errors';
+import { resolveInside } from './naming';
+import { UploadSession, expectedChunkBytes } from './sessions';
+import type { PendingPart, StorageAdapter } from './storage';
+
+// Versión del protocolo y extensiones implementadas
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'expiration', 'checksum', 'termination'];
+export const TUS_CHECKSUM_ALGORITHMS = ['sha1', 'sha256', 'md5'];
+
+/**
+ * Decodifica la cabecera `Upload-Metadata`
+ *
+ * Es una lista separada por comas de pares `clave valor-en-base64`; el valor
+ * puede omitirse.
+ *
+ * @param header - Valor de la cabecera (opcional)
+ * @returns Metadatos decodificados como texto UTF-8
+ */
+export function parseMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ');
+    if (!key || rest.length || (value !== undefined && !/^[A-Za-z0-9+/]*={0,2}$/.test(value))) {
+      throw new ApiError(400, 'INVALID_METADATA', 'Upload-Metadata no es válido');
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+/**
+ * Checksum declarado en `Upload-Checksum` para el cuerpo de un PATCH
+ */
+export interface TusChecksum {
+  algorithm: string;
+  digest: string;   // Digest en base64
+}
+
+/**
+ * Interpreta la cabecera `Upload-Checksum` (`<algoritmo> <digest-base64>`)
+ *
+ * @param header - Valor de la cabecera (opcional)
+ * @returns Algoritmo y digest, o undefined si no se envió
+ */
+export function parseChecksum(header: string | undefined): TusChecksum | undefined {
+  if (!header) return undefined;
+  const match = /^(\S+) (\S+)$/.exec(header.trim());
+  if (!match) throw new ApiError(400, 'INVALID_CHECKSUM', 'Upload-Checksum no es válido');
+  if (!TUS_CHECKSUM_ALGORITHMS.includes(match[1])) {
+    throw new ApiError(400, 'UNSUPPORTED_CHECKSUM', `Algoritmo de checksum no soportado: ${match[1]}`, { algorithms: TUS_CHECKSUM_ALGORITHMS });
+  }
+  return { algorithm: match[1], digest: match[2] };
+}
+
+/**
+ * Número de chunks consecutivos ya almacenados desde el principio
+ *
+ * tus escribe el archivo en orden, así que el offset depende solo de este prefijo.
+ *
+ * @param session - Sesión de subida
+ */
+export function storedPrefix(session: UploadSession) {
+  const received = new Set(session.receivedChunks);
+  let count = 0;
+  while (count < session.totalChunks && received.has(count)) count++;
+  return count;
+}
+
+/**
+ * Colas de bytes de subidas tus que aún no completan un chunk
+ *
+ * Un PATCH puede terminar a mitad de un chunk; esos bytes se guardan en
+ * `<root>/<uploadId>/tail_<índice>` hasta que llegan los que faltan y el
+ * chunk completo pasa al almacenamiento. El índice en el nombre evita
+ * confundir la cola de un chunk ya almacenado con la del siguiente.
+ */
+export class TusTails {
+  constructor(private root: string) {
+    fs.mkdirSync(root, { recursive: true });
+  }
+
+  private dirOf(uploadId: string) {
+    return resolveInside(this.root, uploadId);
+  }
+
+  pathOf(uploadId: string, chunkIndex: number) {
+    return path.join(this.dirOf(uploadId), `tail_${chunkIndex}`);
+  }
+
+  /**
+   * Bytes acumulados para un chunk (0 si no hay cola)
+   */
+  async size(uploadId: string, chunkIndex: number) {
+    const stat = await fs.promises.stat(this.pathOf(uploadId, chunkIndex)).catch(() => undefined);
+    return stat?.size ?? 0;
+  }
+
+  /**
+   * Offset actual de una subida tus: chunks consecutivos almacenados más su cola
+   *
+   * @param session - Sesión de subida
+   */
+  async offsetOf(session: UploadSession) {
+    const chunkIndex = storedPrefix(session);
+    if (chunkIndex >= session.totalChunks) return session.fileSize;
+    const tail = Math.min(await this.size(session.uploadId, chunkIndex), expectedChunkBytes(session, chunkIndex));
+    return chunkIndex * session.chunkSize + tail;
+  }
+
+  async remove(uploadId: string) {
+    await fs.promises.rm(this.dirOf(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Borra las colas de sesiones que ya no están abiertas
+   *
+   * @param liveSessions - Sesiones abiertas o ensamblándose
+   * @param olderThan - Solo se borran colas sin cambios desde este instante (ms)
+   * @returns Número de colas borradas
+   */
+  async sweep(liveSessions: UploadSession[], olderThan: number) {
+    const live = new Set(liveSessions.map(s => s.uploadId));
+    let removed = 0;
+    for (const name of await fs.promises.readdir(this.root)) {
+      if (live.has(name)) continue;
+      const stat = await fs.promises.stat(path.join(this.root, name)).catch(() => undefined);
+      if (!stat || stat.mtimeMs > olderThan) continue;
+      await this.remove(name);
+      removed++;
+    }
+    return removed;
+  }
+}
+
+/**
+ * Dependencias y datos para escribir el cuerpo de un PATCH tus
+ */
+export interface TusWrite {
+  session: UploadSession;
+  storage: StorageAdapter;
+  tails: TusTails;
+  source: Readable;
+  checksum?: TusChecksum;
+  // Verifica, confirma y registra un chunk completo (la misma lógica que las rutas de chunks)
+  store: (chunkIndex: number, part: PendingPart) => Promise<unknown>;
+}
+
+/**
+ * Escribe el cuerpo de un PATCH tus a partir del offset actual
+ *
+ * Los bytes se acumulan en la cola del chunk en curso y cada chunk que se
+ * completa se entrega al almacenamiento como una parte normal. Sin checksum
+ * se entrega en cuanto se completa: si la conexión se corta, lo recibido se
+ * conserva y el cliente continúa desde el offset que devuelva HEAD. Con
+ * `Upload-Checksum` las colas completas esperan a que el digest se verifique;
+ * si no coincide (o la petición falla) se descarta todo lo escrito en ella.
+ *
+ * @returns Nuevo offset de la subida
+ */
+export async function writeTusBody({ session, storage, tails, source, checksum, store }: TusWrite) {
+  const { uploadId, totalChunks } = session;
+  const digest = checksum && crypto.createHash(checksum.algorithm);
+  const full: number[] = [];   // Colas completas pendientes de pasar al almacenamiento
+  let chunkIndex = storedPrefix(session);
+  let tailBytes = 0;
+  let handle: FileHandle | undefined;
+
+  const openTail = async () => {
+    tailBytes = await tails.size(uploadId, chunkIndex);
+    handle = chunkIndex < totalChunks ? await fs.promises.open(tails.pathOf(uploadId, chunkIndex), 'a') : undefined;
+  };
+
+  // Cierra la cola llena y abre la del chunk siguiente
+  const advance = async () => {
+    await handle?.close();
+    full.push(chunkIndex);
+    chunkIndex++;
+    await openTail();
+  };
+
+  // Entrega al almacenamiento las colas completas, en orden
+  const flush = async () => {
+    while (full.length) {
+      const tailPath = tails.pathOf(uploadId, full[0]);
+      const part = await storage.writePart(session, fs.createReadStream(tailPath), expectedChunkBytes(session, full[0]));
+      await store(full[0], part);
+      await fs.promises.rm(tailPath, { force: true });
+      full.shift();
+    }
+  };
+
+  // Borra las colas posteriores a un chunk, que ya no corresponden al offset de la subida
+  const removeAfter = async (index: number) => {
+    for (let i = index + 1; i <= chunkIndex; i++) await fs.promises.rm(tails.pathOf(uploadId, i), { force: true });
+  };
+
+  await fs.promises.mkdir(path.dirname(tails.pathOf(uploadId, chunkIndex)), { recursive: true });
+  await openTail();
+
+  // Escritura en curso: se espera antes de cerrar la cola aunque la conexión se corte
+  let writing: Promise<void> = Promise.resolve();
+  const sink = new Writable({
+    write(data: Buffer, _encoding, callback) {
+      writing = (async () => {
+        digest?.update(data);
+        let rest = data;
+        while (rest.length) {
+          if (chunkIndex >= totalChunks) {
+            throw new ApiError(413, 'UPLOAD_LENGTH_EXCEEDED', `El cuerpo supera Upload-Length (${session.fileSize} bytes)`);
+          }
+          const take = Math.min(rest.length, expectedChunkBytes(session, chunkIndex) - tailBytes);
+          await handle!.write(rest.subarray(0, take));
+          tailBytes += take;
+          rest = rest.subarray(take);
+          if (tailBytes === expectedChunkBytes(session, chunkIndex)) {
+            await advance();
+            if (!checksum) await flush();
+          }
+        }
+      })();
+      writing.then(() => callback(), callback);
+    },
+  });
+
+  let firstIndex = chunkIndex;
+  let firstTail = tailBytes;
+  let verified = !checksum;
+  try {
+    // Una cola que ya ocupa el chunk entero quedó de una escritura interrumpida justo antes de almacenarla
+    while (chunkIndex < totalChunks && tailBytes >= expectedChunkBytes(session, chunkIndex)) {
+      await handle?.truncate(expectedChunkBytes(session, chunkIndex));
+      await advance();
+    }
+    await flush();
+    firstIndex = chunkIndex;
+    firstTail = tailBytes;
+
+    await new Promise<void>((resolve, reject) => pipeline(source, sink, error => (error ? reject(error) : resolve())));
+    await writing;
+    if (digest && checksum && digest.digest('base64') !== checksum.digest) {
+      throw new ApiError(460, 'CHECKSUM_MISMATCH', 'El checksum del cuerpo no coincide');
+    }
+    verified = true;
+    await flush();
+  } catch (error) {
+    await writing.catch(() => undefined);
+    await handle?.close().catch(() => undefined);
+    handle = undefined;
+    if (full.length && verified) {
+      // Falló el almacenamiento: se conserva la primera cola completa y se descarta lo posterior
+      await removeAfter(full[0]);
+    } else if (!verified) {
+      // Sin checksum verificado no se conserva nada de esta petición
+      await removeAfter(firstIndex);
+      if (firstIndex < totalChunks) await fs.promises.truncate(tails.pathOf(uploadId, firstIndex), firstTail);
+    }
+    throw error;
+  } finally {
+    await handle?.close().catch(() => undefined);
+  }
+
+  return tails.offsetOf(session);
+}
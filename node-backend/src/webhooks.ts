@@ -0,0 +1,411 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { FileRecord } from './catalog';
+import type { UploadSession } from './sessions';
+import {
+  WEBHOOKS_ROOT, WEBHOOK_EVENTS, WEBHOOK_LOG_TTL_MS, WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_BASE_MS, WEBHOOK_RETRY_MAX_MS,
+  WEBHOOK_SECRET, WEBHOOK_TIMEOUT_MS, WEBHOOK_URLS,
+} from './config';
+import { logger } from './logger';
+
+/**
+ * Tipo de notificación que se envía a los webhooks
+ *
+ * - upload.completed: el archivo se ensambló y está en el catálogo
+ * - upload.failed: el ensamblado falló (la sesión vuelve a quedar abierta)
+ * - upload.expired: la sesión caducó por inactividad
+ * - file.processed: terminó el procesamiento del archivo (listo o en cuarentena)
+ */
+export type WebhookEventType = 'upload.completed' | 'upload.failed' | 'upload.expired' | 'file.processed';
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = ['upload.completed', 'upload.failed', 'upload.expired', 'file.processed'];
+
+/**
+ * Notificación tal como se envía en el cuerpo de la petición
+ *
+ * El `id` es el mismo en todos los destinos y en los reenvíos, para que el
+ * receptor pueda descartar duplicados.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;                  // Fecha del suceso (ISO)
+  data: Record<string, unknown>;
+}
+
+/**
+ * Estado de una entrega
+ *
+ * - pending: por enviar o a la espera de un reintento
+ * - delivered: el destino respondió 2xx
+ * - failed: se agotaron los intentos o el destino la rechazó; se puede reenviar
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Intento de envío de una entrega
+ */
+export interface DeliveryAttempt {
+  at: string;                         // Inicio del intento (ISO)
+  statusCode?: number;                // Respuesta del destino, si la hubo
+  error?: string;                     // Error de red o de tiempo agotado
+  response?: string;                  // Principio del cuerpo de la respuesta
+  durationMs: number;
+}
+
+/**
+ * Entrega de una notificación a un destino, guardada en el registro
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  url: string;
+  event: WebhookEvent;
+  status: DeliveryStatus;
+  attemptCount: number;               // Intentos desde la creación o el último reenvío
+  attempts: DeliveryAttempt[];        // Últimos intentos, también de rondas anteriores
+  nextAttemptAt?: string;             // pending: próximo intento (ISO)
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Configuración de las entregas
+ */
+export interface WebhookOptions {
+  secret: string;                     // Clave HMAC de las firmas
+  events: readonly WebhookEventType[]; // Tipos que se notifican
+  maxAttempts: number;                // Intentos por ronda antes de darla por fallida
+  timeoutMs: number;                  // Tiempo máximo de cada petición
+  retryBaseMs: number;                // Espera antes del primer reintento (se dobla en cada uno)
+  retryMaxMs: number;                 // Espera máxima entre reintentos
+  logTtlMs: number;                   // Antigüedad a partir de la que se borran las entregas terminadas
+}
+
+// Intentos que se conservan en el registro de cada entrega
+const MAX_LOGGED_ATTEMPTS = 20;
+
+// Caracteres de la respuesta del destino que se guardan en cada intento
+const MAX_RESPONSE_CHARS = 500;
+
+// Intervalo de limpieza del registro de entregas
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Firma HMAC-SHA256 del cuerpo de una notificación
+ *
+ * Se firma `<timestamp>.<cuerpo>` para que una petición capturada no pueda
+ * reenviarse más tarde con otra fecha. Se envía en la cabecera
+ * `X-Webhook-Signature: t=<timestamp>,v1=<firma hex>`.
+ *
+ * @param secret - Clave compartida con el receptor
+ * @param timestamp - Segundos desde epoch del envío
+ * @param body - Cuerpo JSON exacto de la petición
+ */
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Verifica la cabecera `X-Webhook-Signature` de una notificación recibida
+ *
+ * @param secret - Clave compartida con el emisor
+ * @param header - Valor de la cabecera
+ * @param body - Cuerpo exacto recibido
+ * @param toleranceMs - Antigüedad máxima aceptada de la firma
+ * @returns true si la firma es válida y reciente
+ */
+export function verifySignature(secret: string, header: string | undefined, body: string, toleranceMs = 5 * 60 * 1000) {
+  const fields = new Map((header || '').split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = Number(fields.get('t'));
+  const signature = fields.get('v1');
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(Date.now() - timestamp * 1000) > toleranceMs) return false;
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Datos de un archivo del catálogo que viajan en las notificaciones
+ */
+export function fileData(record: FileRecord) {
+  return {
+    fileId: record.fileId,
+    owner: record.owner,
+    uploadId: record.uploadId,
+    originalFileName: record.originalFileName,
+    fileName: record.fileName,
+    relativeDir: record.relativeDir,
+    relativePath: record.relativePath,
+    version: record.version,
+    size: record.size,
+    mimeType: record.mimeType,
+    sha256: record.sha256,
+    processingState: record.processing?.state ?? 'ready',
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Datos de una sesión de subida que viajan en las notificaciones
+ */
+export function uploadData(session: UploadSession) {
+  return {
+    uploadId: session.uploadId,
+    owner: session.owner,
+    fileName: session.fileName,
+    relativeDir: session.relativeDir,
+    fileSize: session.fileSize,
+    mimeType: session.mimeType,
+    protocol: session.tus ? 'tus' : 'chunks',
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Notificaciones salientes a webhooks con firma, reintentos y registro persistente
+ *
+ * Cada notificación crea una entrega por destino, guardada como
+ * `<deliveryId>.json` en el directorio raíz. Las entregas fallidas por red,
+ * tiempo agotado, 408, 429 o 5xx se reintentan con backoff exponencial y
+ * jitter; cualquier otra respuesta no 2xx, o agotar los intentos, deja la
+ * entrega como `failed` hasta que se reenvíe a mano. Tras un reinicio se
+ * retoman las entregas pendientes.
+ */
+export class WebhookDispatcher {
+  private deliveries = new Map<string, WebhookDelivery>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private sending = new Set<string>();
+
+  /**
+   * @param urls - Destinos que reciben todas las notificaciones
+   * @param root - Directorio del registro de entregas
+   * @param options - Firma, tipos notificados, reintentos y retención
+   */
+  constructor(private urls: string[], private root: string, private options: WebhookOptions) {
+    fs.mkdirSync(root, { recursive: true });
+    this.load();
+    this.prune();
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === 'pending') this.schedule(delivery, Date.parse(delivery.nextAttemptAt ?? '') - Date.now() || 0);
+    }
+  }
+
+  /**
+   * Carga en memoria el registro de entregas guardado en disco
+   */
+  private load() {
+    for (const f of fs.readdirSync(this.root)) {
+      if (!f.endsWith('.json')) continue;
+      try {
+        const delivery = JSON.parse(fs.readFileSync(path.join(this.root, f), 'utf8')) as WebhookDelivery;
+        this.deliveries.set(delivery.deliveryId, delivery);
+      } catch (error) {
+        logger.error('Registro de entrega de webhook corrupto ignorado', { file: f, error });
+      }
+    }
+    const pending = this.list({ status: 'pending' }).length;
+    if (this.deliveries.size) logger.info('Registro de entregas de webhooks cargado', { deliveries: this.deliveries.size, pending });
+  }
+
+  /**
+   * Escribe la entrega en disco de forma atómica (archivo temporal + rename)
+   */
+  private persist(delivery: WebhookDelivery) {
+    delivery.updatedAt = new Date().toISOString();
+    const file = path.join(this.root, `${delivery.deliveryId}.json`);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(delivery, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  /**
+   * Borra del registro las entregas terminadas más antiguas que la retención
+   */
+  private prune() {
+    const limit = Date.now() - this.options.logTtlMs;
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === 'pending' || Date.parse(delivery.updatedAt) > limit) continue;
+      this.deliveries.delete(delivery.deliveryId);
+      fs.rmSync(path.join(this.root, `${delivery.deliveryId}.json`), { force: true });
+    }
+  }
+
+  /**
+   * Envía una notificación a todos los destinos configurados
+   *
+   * No espera a las entregas: se hacen en segundo plano.
+   *
+   * @param type - Tipo de notificación
+   * @param data - Datos propios del tipo
+   * @returns La notificación, o undefined si el tipo no se notifica
+   */
+  dispatch(type: WebhookEventType, data: Record<string, unknown>) {
+    if (!this.urls.length || !this.options.events.includes(type)) return undefined;
+    const event: WebhookEvent = { id: crypto.randomBytes(16).toString('hex'), type, createdAt: new Date().toISOString(), data };
+    for (const url of this.urls) {
+      const now = new Date().toISOString();
+      const delivery: WebhookDelivery = {
+        deliveryId: crypto.randomBytes(16).toString('hex'),
+        url,
+        event,
+        status: 'pending',
+        attemptCount: 0,
+        attempts: [],
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.deliveries.set(delivery.deliveryId, delivery);
+      this.persist(delivery);
+      this.schedule(delivery, 0);
+    }
+    return event;
+  }
+
+  get(deliveryId: string) {
+    return this.deliveries.get(deliveryId);
+  }
+
+  /**
+   * Lista las entregas del registro, de la más reciente a la más antigua
+   *
+   * @param filter - Estado y tipo de notificación (opcionales)
+   */
+  list(filter: { status?: DeliveryStatus; type?: WebhookEventType } = {}) {
+    return [...this.deliveries.values()]
+      .filter(d => (!filter.status || d.status === filter.status) && (!filter.type || d.event.type === filter.type))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Reenvía una entrega con una ronda nueva de intentos
+   *
+   * La notificación conserva su `id`. Una entrega aún pendiente no se toca.
+   *
+   * @param deliveryId - ID de la entrega
+   * @returns La entrega, o undefined si no existe
+   */
+  replay(deliveryId: string) {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status === 'pending') return delivery;
+    Object.assign(delivery, { status: 'pending', attemptCount: 0, nextAttemptAt: new Date().toISOString() });
+    this.persist(delivery);
+    this.schedule(delivery, 0);
+    logger.info('Reenviando entrega de webhook', { deliveryId, url: delivery.url, type: delivery.event.type });
+    return delivery;
+  }
+
+  /**
+   * Programa el próximo intento de una entrega
+   */
+  private schedule(delivery: WebhookDelivery, delayMs: number) {
+    clearTimeout(this.timers.get(delivery.deliveryId));
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.deliveryId);
+      this.send(delivery).catch(error => logger.error('Error enviando el webhook', { deliveryId: delivery.deliveryId, error }));
+    }, Math.max(0, delayMs));
+    this.timers.set(delivery.deliveryId, timer.unref());
+  }
+
+  /**
+   * Hace un intento de entrega y decide si terminó, se reintenta o falló
+   */
+  private async send(delivery: WebhookDelivery) {
+    if (this.sending.has(delivery.deliveryId) || delivery.status !== 'pending') return;
+    this.sending.add(delivery.deliveryId);
+
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    const attempt: DeliveryAttempt = { at: new Date(started).toISOString(), durationMs: 0 };
+    let retryAfterMs = 0;
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'uploader-webhooks/1.0',
+          'X-Webhook-Id': delivery.event.id,
+          'X-Webhook-Delivery': delivery.deliveryId,
+          'X-Webhook-Event': delivery.event.type,
+          'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(this.options.secret, timestamp, body)}`,
+        },
+        body,
+      });
+      attempt.statusCode = response.status;
+      attempt.response = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_CHARS) || undefined;
+      retryAfterMs = Number(response.headers.get('Retry-After')) * 1000 || 0;
+    } catch (error) {
+      attempt.error = error instanceof Error && error.name === 'TimeoutError'
+        ? `Sin respuesta en ${this.options.timeoutMs} ms`
+        : String(error instanceof Error && error.cause ? error.cause : error);
+    } finally {
+      attempt.durationMs = Date.now() - started;
+      this.sending.delete(delivery.deliveryId);
+    }
+
+    delivery.attemptCount++;
+    delivery.attempts = [...delivery.attempts, attempt].slice(-MAX_LOGGED_ATTEMPTS);
+    const status = attempt.statusCode;
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+
+    if (status !== undefined && status >= 200 && status < 300) {
+      Object.assign(delivery, { status: 'delivered', nextAttemptAt: undefined });
+      logger.info('Webhook entregado', { deliveryId: delivery.deliveryId, url: delivery.url, type: delivery.event.type });
+    } else if (retryable && delivery.attemptCount < this.options.maxAttempts) {
+      const delayMs = Math.max(this.backoff(delivery.attemptCount), Math.min(retryAfterMs, this.options.retryMaxMs));
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      this.schedule(delivery, delayMs);
+      logger.warn('Webhook no entregado, se reintentará', {
+        deliveryId: delivery.deliveryId, url: delivery.url, statusCode: status, error: attempt.error, retryInMs: Math.round(delayMs),
+      });
+    } else {
+      Object.assign(delivery, { status: 'failed', nextAttemptAt: undefined });
+      logger.error('Webhook fallido', {
+        deliveryId: delivery.deliveryId, url: delivery.url, attempts: delivery.attemptCount, statusCode: status, error: attempt.error,
+      });
+    }
+    // La entrega pudo borrarse del registro mientras tanto
+    if (this.deliveries.has(delivery.deliveryId)) this.persist(delivery);
+  }
+
+  /**
+   * Espera antes del reintento n: exponencial con tope y jitter del 50%
+   */
+  private backoff(attempt: number) {
+    const delay = Math.min(this.options.retryMaxMs, this.options.retryBaseMs * 2 ** (attempt - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  }
+}
+
+/**
+ * Crea el emisor de webhooks con la configuración del entorno
+ *
+ * Con destinos configurados y sin `WEBHOOK_SECRET` el servidor no arranca:
+ * las notificaciones nunca salen sin firmar. Los tipos desconocidos en
+ * `WEBHOOK_EVENTS` se ignoran con un aviso.
+ */
+export function createWebhooks() {
+  if (WEBHOOK_URLS.length && !WEBHOOK_SECRET) {
+    throw new Error('Falta la clave de los webhooks: configura WEBHOOK_SECRET o deja WEBHOOK_URLS vacío');
+  }
+  const events = WEBHOOK_EVENTS.filter((type): type is WebhookEventType => {
+    if ((WEBHOOK_EVENT_TYPES as readonly string[]).includes(type)) return true;
+    logger.warn('Tipo de notificación desconocido en WEBHOOK_EVENTS ignorado', { type });
+    return false;
+  });
+  return new WebhookDispatcher(WEBHOOK_URLS, WEBHOOKS_ROOT, {
+    secret: WEBHOOK_SECRET || '',
+    events,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+    retryBaseMs: WEBHOOK_RETRY_BASE_MS,
+    retryMaxMs: WEBHOOK_RETRY_MAX_MS,
+    logTtlMs: WEBHOOK_LOG_TTL_MS,
+  });
+}